@@ -0,0 +1,212 @@
+import WebSocket from "ws";
+import { DEFAULT_DIFFICULTY } from "../src/game/difficulty";
+import { DEFAULT_LAYOUT } from "../src/game/layout";
+import { parseSeed, randomSeed } from "../src/game/rng";
+import {
+  NO_INPUTS,
+  SimulationEvent,
+  TICK,
+  createInitialState,
+  retryShift,
+  startNextShift,
+  step,
+} from "../src/game/simulation";
+import { DEFAULT_THIEVES } from "../src/game/thieves";
+import {
+  ClientMessage,
+  DEFAULT_VERSUS_PORT,
+  InputQueue,
+  SNAPSHOT_TICKS,
+  ServerMessage,
+  VERSUS_ROLES,
+  VERSUS_THIEF_ID,
+  VersusRole,
+  getJoinRejection,
+  parseClientMessage,
+  queueInputs,
+  takeInputs,
+  toSnapshotState,
+} from "../src/game/versus";
+
+// Versus server: one game, one employee and one thief. It owns the
+// simulation and steps it with whatever inputs the two clients have sent,
+// at the same fixed tick as the browser game. The game only runs while the
+// employee is connected; without a thief client the thief is a bot, and the
+// game starts over once both have left.
+//
+//   PORT=8787 SEED=1234 npm run server
+
+const PORT = Number(process.env.PORT) || DEFAULT_VERSUS_PORT;
+const SEED = parseSeed(process.env.SEED ?? null);
+
+// Largest message accepted, in bytes. A frame's inputs take well under a
+// kilobyte; anything bigger is dropped by ws before it's even parsed.
+const MAX_PAYLOAD = 16 * 1024;
+
+// Longest stretch simulated at once after the process was held up
+const MAX_CATCH_UP = 0.25;
+
+interface Client extends InputQueue {
+  socket: WebSocket;
+  role: VersusRole;
+}
+
+const clients: { [role in VersusRole]?: Client } = {};
+
+function newGame() {
+  return createInitialState(
+    SEED ?? randomSeed(),
+    DEFAULT_LAYOUT,
+    DEFAULT_THIEVES,
+    DEFAULT_DIFFICULTY
+  );
+}
+
+let state = newGame();
+let tick = 0;
+let events: SimulationEvent[] = [];
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function sendSnapshots() {
+  const snapshot = toSnapshotState(state);
+  for (const client of Object.values(clients)) {
+    if (!client) continue;
+    const opponent = client.role === "employee" ? "thief" : "employee";
+    send(client.socket, {
+      type: "snapshot",
+      tick,
+      ack: client.ack,
+      opponent: clients[opponent] !== undefined,
+      state: snapshot,
+      events,
+    });
+  }
+  events = [];
+}
+
+// The game itself waits for the employee, but a thief on their own still
+// gets their inputs used up and snapshots to show they're connected
+function runTick() {
+  const { employee, thief } = clients;
+  const thiefInputs = thief && takeInputs(thief);
+
+  if (employee) {
+    state = step(
+      state,
+      [takeInputs(employee)],
+      TICK,
+      thiefInputs ? { [VERSUS_THIEF_ID]: thiefInputs } : {}
+    );
+    events.push(...state.events);
+  }
+  tick++;
+  if (tick % SNAPSHOT_TICKS === 0) {
+    sendSnapshots();
+  }
+}
+
+function handleMessage(
+  socket: WebSocket,
+  client: Client | null,
+  message: ClientMessage
+): Client | null {
+  switch (message.type) {
+    case "join": {
+      const { role } = message;
+      if (client) return client;
+      const reason = getJoinRejection(
+        message.version,
+        role,
+        VERSUS_ROLES.filter((other) => clients[other])
+      );
+      if (reason) {
+        send(socket, { type: "rejected", reason });
+        socket.close();
+        return null;
+      }
+
+      const joined: Client = {
+        socket,
+        role,
+        queue: [],
+        ack: -1,
+        last: NO_INPUTS,
+      };
+      clients[role] = joined;
+      send(socket, {
+        type: "welcome",
+        role,
+        thiefId: VERSUS_THIEF_ID,
+        layout: state.layout,
+        difficulty: state.difficulty,
+      });
+      sendSnapshots();
+      console.log(`${role} joined`);
+      return joined;
+    }
+
+    case "inputs": {
+      if (!client) return null;
+      queueInputs(client, message.seq, message.ticks);
+      return client;
+    }
+
+    case "shift":
+      // Only the employee moves the game on, and only once it's over
+      if (client?.role === "employee" && state.outcome) {
+        if (message.action === "retry") {
+          state = retryShift(state);
+        } else if (state.outcome === "quotaMet") {
+          state = startNextShift(state);
+        }
+        sendSnapshots();
+      }
+      return client;
+  }
+}
+
+const server = new WebSocket.Server({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+server.on("connection", (socket) => {
+  let client: Client | null = null;
+
+  socket.on("message", (data) => {
+    const message = parseClientMessage(data.toString());
+    if (message) {
+      client = handleMessage(socket, client, message);
+    }
+  });
+
+  socket.on("close", () => {
+    if (!client || clients[client.role] !== client) return;
+    delete clients[client.role];
+    console.log(`${client.role} left`);
+
+    if (!clients.employee && !clients.thief) {
+      state = newGame();
+      tick = 0;
+      events = [];
+    }
+  });
+});
+
+// Step as many ticks as the time since the last run covers, like the
+// browser's game loop does with its frames
+let lastTime = performance.now();
+let accumulator = 0;
+setInterval(() => {
+  const now = performance.now();
+  accumulator = Math.min(accumulator + (now - lastTime) / 1000, MAX_CATCH_UP);
+  lastTime = now;
+  while (accumulator >= TICK) {
+    accumulator -= TICK;
+    runTick();
+  }
+}, TICK * 1000);
+
+console.log(`Versus server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import {
+  AudioSettings,
+  DUCKED_MUSIC,
+  FOOTSTEP_STRIDE,
+  SOUNDS,
+  SOUND_DIRECTORY,
+  SoundName,
+  getEventSounds,
+  getMasterVolume,
+  getSoundVolume,
+} from "../game/audio";
+import { SimulationEvent, SimulationState } from "../game/simulation";
+import { Vec3 } from "../game/store";
+
+// Seconds for the music to fade down under a cue and back up after
+const DUCK_FADE = 0.15;
+
+// Positional sounds are at full volume up to this far from the camera
+const REF_DISTANCE = 4;
+
+// Further than this in one frame is someone being put somewhere, not
+// walking there
+const MAX_STEP = 2;
+
+// Decoded sounds, shared by every AudioSystem so switching to the replay
+// viewer doesn't load them again. Null for ones that couldn't be loaded.
+const buffers = new Map<SoundName, Promise<AudioBuffer | null>>();
+const loaded = new Map<SoundName, AudioBuffer | null>();
+
+function loadSound(sound: SoundName): Promise<AudioBuffer | null> {
+  let buffer = buffers.get(sound);
+  if (!buffer) {
+    buffer = new THREE.AudioLoader()
+      .loadAsync(SOUND_DIRECTORY + SOUNDS[sound].file)
+      .catch(() => {
+        // Sounds are optional, so carry on without it. Only worth a mention
+        // while working on the game, where it's usually a misnamed file.
+        if (process.env.NODE_ENV === "development") {
+          console.warn(
+            `Sound "${sound}" could not be loaded; playing without it`
+          );
+        }
+        return null;
+      })
+      .then((result) => {
+        loaded.set(sound, result);
+        return result;
+      });
+    buffers.set(sound, buffer);
+  }
+  return buffer;
+}
+
+// Plays the game's sounds: effects for what happens in the simulation,
+// some of them placed in the store, footsteps for every thief and customer
+// walking about and the music underneath. Sounds still loading when they're
+// due are skipped.
+export function AudioSystem({
+  settings,
+  simulationRef,
+  subscribeToEvents,
+}: {
+  settings: AudioSettings;
+  simulationRef: React.MutableRefObject<SimulationState>;
+  subscribeToEvents: (listener: (event: SimulationEvent) => void) => () => void;
+}) {
+  const camera = useThree((three) => three.camera);
+  const scene = useThree((three) => three.scene);
+  const [listener] = useState(() => new THREE.AudioListener());
+  const [music] = useState(() => new THREE.Audio(listener));
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const duckUntilRef = useRef(0); // Audio context time
+  const musicVolumeRef = useRef(0); // What the music is fading towards
+  // Distance each thief and customer has walked since their last footstep,
+  // and where they were, keyed by who they are
+  const footstepsRef = useRef(
+    new Map<string, { position: Vec3; walked: number }>()
+  );
+
+  // Hear the store from wherever the camera is
+  useEffect(() => {
+    camera.add(listener);
+    return () => {
+      camera.remove(listener);
+    };
+  }, [camera, listener]);
+
+  // Browsers keep audio suspended until the player does something
+  useEffect(() => {
+    const resume = () => {
+      if (listener.context.state === "suspended") {
+        listener.context.resume().catch(() => {});
+      }
+    };
+    window.addEventListener("pointerdown", resume);
+    window.addEventListener("keydown", resume);
+    return () => {
+      window.removeEventListener("pointerdown", resume);
+      window.removeEventListener("keydown", resume);
+    };
+  }, [listener]);
+
+  useEffect(() => {
+    listener.setMasterVolume(getMasterVolume(settings));
+  }, [listener, settings]);
+
+  useEffect(() => {
+    let active = true;
+    (Object.keys(SOUNDS) as SoundName[]).forEach(loadSound);
+    loadSound("music").then((buffer) => {
+      if (!active || !buffer) return;
+      music.setBuffer(buffer);
+      music.setLoop(true);
+      music.play();
+    });
+    return () => {
+      active = false;
+      if (music.isPlaying) music.stop();
+    };
+  }, [music]);
+
+  const play = (sound: SoundName, position: Vec3 | null) => {
+    const buffer = loaded.get(sound);
+    if (!buffer) return;
+
+    let audio: THREE.Audio<AudioNode>;
+    if (position) {
+      const positional = new THREE.PositionalAudio(listener);
+      positional.position.set(...position);
+      positional.setRefDistance(REF_DISTANCE);
+      audio = positional;
+    } else {
+      audio = new THREE.Audio(listener);
+    }
+    audio.setBuffer(buffer);
+    audio.setVolume(getSoundVolume(settingsRef.current, sound));
+    audio.onEnded = () => {
+      audio.isPlaying = false;
+      audio.disconnect();
+      scene.remove(audio);
+    };
+    scene.add(audio);
+    audio.play();
+
+    if (SOUNDS[sound].duck) {
+      duckUntilRef.current = Math.max(
+        duckUntilRef.current,
+        listener.context.currentTime + buffer.duration
+      );
+    }
+  };
+  const playRef = useRef(play);
+  playRef.current = play;
+
+  useEffect(
+    () =>
+      subscribeToEvents((event) => {
+        for (const { sound, position } of getEventSounds(
+          simulationRef.current,
+          event
+        )) {
+          playRef.current(sound, position);
+        }
+      }),
+    [subscribeToEvents, simulationRef]
+  );
+
+  useFrame(() => {
+    // Music, lowered while an important cue plays
+    const { currentTime } = listener.context;
+    const ducked = currentTime < duckUntilRef.current;
+    const volume =
+      getSoundVolume(settingsRef.current, "music") *
+      (ducked ? DUCKED_MUSIC : 1);
+    if (volume !== musicVolumeRef.current) {
+      musicVolumeRef.current = volume;
+      music.gain.gain.setTargetAtTime(volume, currentTime, DUCK_FADE);
+    }
+
+    // Footsteps go by how far someone has moved, so they stop whenever the
+    // game does. Customers make the same ones as thieves, so listening for
+    // them gives nothing away.
+    const footsteps = footstepsRef.current;
+    const { thieves, customers } = simulationRef.current;
+    const walkers = [
+      ...thieves.map(({ id, position }) => ({ key: `thief-${id}`, position })),
+      ...customers.map(({ id, position }) => ({
+        key: `customer-${id}`,
+        position,
+      })),
+    ];
+    for (const { key, position } of walkers) {
+      const last = footsteps.get(key);
+      const moved = last
+        ? Math.hypot(
+            position[0] - last.position[0],
+            position[2] - last.position[2]
+          )
+        : 0;
+      let walked = (last?.walked ?? 0) + (moved < MAX_STEP ? moved : 0);
+      if (walked >= FOOTSTEP_STRIDE) {
+        walked = 0;
+        play("footstep", position);
+      }
+      footsteps.set(key, { position, walked });
+    }
+    footsteps.forEach((_, key) => {
+      if (!walkers.some((walker) => walker.key === key)) footsteps.delete(key);
+    });
+  });
+
+  return null;
+}
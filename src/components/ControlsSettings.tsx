@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  InputAction,
+  InputBindings,
+  MAX_BUTTONS,
+  MAX_KEYS,
+  formatButton,
+  formatKey,
+  isButtonDown,
+  rebind,
+} from "../game/input";
+
+// The binding slot waiting for a key or button press
+interface ListeningSlot {
+  device: "keys" | "buttons";
+  action: InputAction;
+  slot: number;
+}
+
+// Every button currently held on any connected gamepad
+function getPressedButtons(): Set<number> {
+  const pressed = new Set<number>();
+  for (const gamepad of navigator.getGamepads?.() ?? []) {
+    if (!gamepad) continue;
+    gamepad.buttons.forEach((_, button) => {
+      if (isButtonDown(gamepad, button)) pressed.add(button);
+    });
+  }
+  return pressed;
+}
+
+// Table of actions with their keys and gamepad buttons, for each player.
+// Click a slot, then press the key or button for it; Escape cancels and
+// Backspace clears.
+export function ControlsSettings({
+  bindings: allBindings,
+  onChange: onPlayerChange,
+  onClose,
+}: {
+  bindings: InputBindings[]; // One set per player
+  onChange: (player: number, bindings: InputBindings) => void;
+  onClose: () => void;
+}) {
+  const [player, setPlayer] = useState(0);
+  const [listening, setListening] = useState<ListeningSlot | null>(null);
+  const bindings = allBindings[player];
+  const onChange = useCallback(
+    (next: InputBindings) => onPlayerChange(player, next),
+    [player, onPlayerChange]
+  );
+
+  // Catch the next key before the game sees it
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+
+      const key = e.key.toLowerCase();
+      if (key === "escape") {
+        setListening(null);
+      } else if (key === "backspace" || key === "delete") {
+        onChange(
+          rebind(
+            bindings,
+            listening.device,
+            listening.action,
+            listening.slot,
+            null
+          )
+        );
+        setListening(null);
+      } else if (listening.device === "keys") {
+        onChange(
+          rebind(bindings, "keys", listening.action, listening.slot, key)
+        );
+        setListening(null);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [listening, bindings, onChange]);
+
+  // Gamepads have no events, so poll for a button that wasn't already held
+  useEffect(() => {
+    if (!listening || listening.device !== "buttons") return;
+
+    const alreadyHeld = getPressedButtons();
+    let frame = requestAnimationFrame(function poll() {
+      const pressed = getPressedButtons();
+      const button = Array.from(pressed).find((b) => !alreadyHeld.has(b));
+      if (button !== undefined) {
+        onChange(
+          rebind(bindings, "buttons", listening.action, listening.slot, button)
+        );
+        setListening(null);
+        return;
+      }
+      alreadyHeld.forEach((b) => {
+        if (!pressed.has(b)) alreadyHeld.delete(b);
+      });
+      frame = requestAnimationFrame(poll);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const renderSlot = (
+    device: "keys" | "buttons",
+    action: InputAction,
+    slot: number
+  ) => {
+    const bound = bindings[device][action];
+    const isListening =
+      listening?.device === device &&
+      listening.action === action &&
+      listening.slot === slot;
+    // Slots fill from the left, so only the first empty one can be set
+    const disabled = slot > bound.length;
+
+    let label = "—";
+    if (isListening) {
+      label = device === "keys" ? "Press a key…" : "Press a button…";
+    } else if (slot < bound.length) {
+      label =
+        device === "keys"
+          ? formatKey(bindings.keys[action][slot])
+          : formatButton(bindings.buttons[action][slot]);
+    }
+
+    return (
+      <td key={`${device}-${slot}`}>
+        <button
+          className={isListening ? "selected" : ""}
+          disabled={disabled}
+          onClick={() => setListening({ device, action, slot })}
+        >
+          {label}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <div className="message-display controls-settings">
+      <div className="controls-title">Controls</div>
+      <div className="controls-players">
+        {allBindings.map((_, index) => (
+          <button
+            key={index}
+            className={index === player ? "selected" : ""}
+            onClick={() => {
+              setListening(null);
+              setPlayer(index);
+            }}
+          >
+            Player {index + 1}
+          </button>
+        ))}
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th />
+            <th colSpan={MAX_KEYS}>Keyboard</th>
+            <th colSpan={MAX_BUTTONS}>Gamepad</th>
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <tr key={action}>
+              <td>{label}</td>
+              {Array.from({ length: MAX_KEYS }, (_, slot) =>
+                renderSlot("keys", action, slot)
+              )}
+              {Array.from({ length: MAX_BUTTONS }, (_, slot) =>
+                renderSlot("buttons", action, slot)
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="controls-note">
+        The left stick also moves. Backspace clears a slot. In co-op a key bound
+        for both players only works for Player 2, and with one gamepad Player 2
+        has it.
+      </div>
+      <button
+        className="hud-button"
+        onClick={() => onChange(DEFAULT_BINDINGS[player])}
+      >
+        Reset to defaults
+      </button>
+      <button className="hud-button" onClick={onClose}>
+        Done
+      </button>
+    </div>
+  );
+}
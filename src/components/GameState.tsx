@@ -0,0 +1,76 @@
+import React, { useRef, useEffect, createContext, useContext } from "react";
+import { Item } from "../game/items";
+import { SimulationEvent, SimulationState } from "../game/simulation";
+import { StoreLayout } from "../game/layout";
+import { ActionState, InputAction, InputBindings } from "../game/input";
+import { RunRecord } from "../game/history";
+import { InputRecording } from "../game/replay";
+import { AudioSettings } from "../game/audio";
+
+// Input state written by the GameLoop's key listeners and read by it once
+// per frame, along with the gamepads. The lists have one entry per player.
+export interface PlayerControls {
+  bindings: InputBindings[];
+  keysPressed: { [key: string]: boolean };
+  queuedActions: InputAction[][]; // Key and button presses since the last frame
+  gamepadHeld: InputAction[][]; // Gamepad actions held last frame
+  touch: ActionState; // From the on-screen controls, for the first player
+}
+
+// Game state context
+export interface GameStateContextType {
+  simulation: SimulationState;
+  simulationRef: React.MutableRefObject<SimulationState>;
+  setSimulation: React.Dispatch<React.SetStateAction<SimulationState>>;
+  controlsRef: React.MutableRefObject<PlayerControls>;
+  recordingRef: React.MutableRefObject<InputRecording>; // Current shift's inputs
+  items: Item[];
+  score: number;
+  stolenItems: number;
+  heldItems: (Item | null)[]; // One per player
+  bindings: InputBindings[]; // One set per player
+  updateBindings: (player: number, bindings: InputBindings) => void;
+  audioSettings: AudioSettings;
+  updateAudioSettings: (settings: AudioSettings) => void;
+  runHistory: RunRecord[];
+  updateRunHistory: (runs: RunRecord[]) => void;
+  resetSimulation: (
+    layout?: StoreLayout,
+    playerCount?: number,
+    seed?: number
+  ) => void;
+  loadSimulation: (state: SimulationState) => void;
+  emitEvents: (events: SimulationEvent[]) => void;
+  subscribeToEvents: (listener: (event: SimulationEvent) => void) => () => void;
+}
+
+export const GameStateContext = createContext<GameStateContextType | null>(
+  null
+);
+
+// Whether the game is frozen behind a menu. Animations read it as well as
+// the game loop, so nothing in the store moves while paused.
+export const PausedContext = createContext(false);
+
+// Custom hook to use game state
+export function useGameState() {
+  const context = useContext(GameStateContext);
+  if (!context) {
+    throw new Error("useGameState must be used within a GameStateProvider");
+  }
+  return context;
+}
+
+// Custom hook to react to things that happened inside the simulation
+export function useSimulationEvents(
+  listener: (event: SimulationEvent) => void
+) {
+  const { subscribeToEvents } = useGameState();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => subscribeToEvents((event) => listenerRef.current(event)),
+    [subscribeToEvents]
+  );
+}
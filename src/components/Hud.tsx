@@ -0,0 +1,240 @@
+import React, { useRef, useEffect, useState } from "react";
+import { PRODUCT_CATEGORIES } from "../game/items";
+import {
+  ShiftOutcome,
+  getQueue,
+  getShiftTimeLeft,
+  getUndercoverSuspicion,
+} from "../game/simulation";
+import { CART_CONSTANTS } from "../game/cart";
+import { INPUT_ACTIONS, InputBindings, formatKey } from "../game/input";
+import { getPersonalBest } from "../game/history";
+import { useGameState, useSimulationEvents } from "./GameState";
+import { getActiveBindings } from "./PlayerInput";
+
+// One line reminder of the main controls, with the first key bound to each
+function describeControls(bindings: InputBindings): string {
+  return INPUT_ACTIONS.filter(
+    ({ action }) =>
+      !action.startsWith("move") && bindings.keys[action].length > 0
+  )
+    .map(
+      ({ action, label }) => `${formatKey(bindings.keys[action][0])}: ${label}`
+    )
+    .join(", ");
+}
+
+// Format seconds as m:ss
+export function formatTime(seconds: number): string {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Component to display score, stolen items and shift progress
+export function ScoreDisplay() {
+  const { score, stolenItems, simulation, heldItems, bindings, runHistory } =
+    useGameState();
+  const { shiftRules, shiftStats } = simulation;
+  const personalBest = getPersonalBest(runHistory);
+  const timeLeft = getShiftTimeLeft(simulation);
+  const wariness = getUndercoverSuspicion(simulation);
+
+  return (
+    <div style={{ fontSize: "18px" }}>
+      <div>
+        <span style={{ fontWeight: "bold" }}>
+          Shift {simulation.shiftNumber}:
+        </span>{" "}
+        <span style={{ color: timeLeft < 30 ? "#ff5555" : "white" }}>
+          {formatTime(timeLeft)}
+        </span>
+      </div>
+      <div>
+        <span style={{ fontWeight: "bold", color: "#4CAF50" }}>Score:</span>{" "}
+        {score}
+      </div>
+      <div>
+        <span style={{ fontWeight: "bold", color: "#4CAF50" }}>Restocked:</span>{" "}
+        {shiftStats.itemsShelved} / {shiftRules.restockQuota}
+      </div>
+      <div>
+        <span style={{ fontWeight: "bold", color: "#ff5555" }}>
+          Items Stolen:
+        </span>{" "}
+        {stolenItems} / {shiftRules.stolenLimit}
+      </div>
+      <div>
+        <span style={{ fontWeight: "bold" }}>Checkout queue:</span>{" "}
+        {getQueue(simulation).length}
+      </div>
+      {wariness > 0 && (
+        <div>
+          <span style={{ fontWeight: "bold", color: "#ffaa00" }}>
+            Someone's wary:
+          </span>{" "}
+          {Math.round(wariness * 100)}%
+        </div>
+      )}
+      {heldItems.map(
+        (held, player) =>
+          held && (
+            <div key={player}>
+              <span style={{ fontWeight: "bold" }}>
+                {heldItems.length > 1 ? `P${player + 1} holding:` : "Holding:"}
+              </span>{" "}
+              {held.type.name} ({PRODUCT_CATEGORIES[held.type.category].name})
+            </div>
+          )
+      )}
+      {simulation.cart.pushedBy !== null && (
+        <div>
+          <span style={{ fontWeight: "bold" }}>Cart:</span>{" "}
+          {simulation.cart.items.length} / {CART_CONSTANTS.capacity}
+        </div>
+      )}
+      {personalBest !== null && (
+        <div>
+          <span style={{ fontWeight: "bold" }}>Best:</span> {personalBest}
+        </div>
+      )}
+      <div style={{ fontSize: "12px", opacity: 0.7 }}>
+        Seed: {simulation.seed}
+      </div>
+      {getActiveBindings(bindings, simulation.players.length).map(
+        (playerBindings, player) => (
+          <div key={player} className="hud-controls">
+            {simulation.players.length > 1 && `P${player + 1} — `}
+            {describeControls(playerBindings)}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// Shown while the current run is beating the player's best recorded score
+export function PersonalBestBanner() {
+  const { score, simulation, runHistory } = useGameState();
+  const personalBest = getPersonalBest(runHistory);
+  if (personalBest === null || score <= personalBest || simulation.outcome) {
+    return null;
+  }
+
+  return <div className="personal-best">New personal best!</div>;
+}
+
+// Short message when the player tries the wrong shelf or a full one, grabs
+// a customer who did nothing wrong or leaves one waiting too long
+export function GameHint() {
+  const [hint, setHint] = useState<string | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useSimulationEvents((event) => {
+    if (event.type === "wrongShelf") {
+      const { name, category } = event.item.type;
+      setHint(`${name} goes ${PRODUCT_CATEGORIES[category].where}`);
+    } else if (event.type === "shelfFull") {
+      setHint("This shelf is full, try another one");
+    } else if (event.type === "customerAccused") {
+      setHint(`That was an honest customer! -${event.penalty}`);
+    } else if (event.type === "cartFull") {
+      setHint("The cart is full, unload it first");
+    } else if (event.type === "customerAngry") {
+      setHint(`A customer got tired of queueing! -${event.penalty}`);
+    } else {
+      return;
+    }
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => setHint(null), 2000);
+  });
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  if (!hint) return null;
+  return <div className="message-display game-hint">{hint}</div>;
+}
+
+const OUTCOME_TITLES: { [outcome in ShiftOutcome]: string } = {
+  quotaMet: "Shift complete!",
+  tooManyStolen: "Too many items stolen",
+  outOfTime: "Out of time",
+};
+
+// End-of-shift breakdown with buttons to replay or move on. Buttons without
+// a handler are left out, e.g. for a thief in versus, who waits for the
+// employee to carry on.
+export function ShiftResults({
+  onRetry,
+  onNextShift,
+  onWatchReplay,
+  onQuit,
+}: {
+  onRetry?: () => void;
+  onNextShift?: () => void;
+  onWatchReplay?: () => void;
+  onQuit?: () => void;
+}) {
+  const { simulation } = useGameState();
+  const { outcome, shiftStats, shiftRules } = simulation;
+  if (!outcome) return null;
+
+  const won = outcome === "quotaMet";
+
+  return (
+    <div className="message-display shift-results">
+      <div className={won ? "shift-won" : "shift-lost"}>
+        {OUTCOME_TITLES[outcome]}
+      </div>
+      <table>
+        <tbody>
+          <tr>
+            <td>Items shelved</td>
+            <td>
+              {shiftStats.itemsShelved} / {shiftRules.restockQuota}
+            </td>
+          </tr>
+          <tr>
+            <td>Thieves caught</td>
+            <td>{shiftStats.thievesCaught}</td>
+          </tr>
+          <tr>
+            <td>Items lost</td>
+            <td>{shiftStats.itemsLost}</td>
+          </tr>
+          <tr>
+            <td>Customers served</td>
+            <td>{shiftStats.customersServed}</td>
+          </tr>
+          <tr>
+            <td>Customers lost</td>
+            <td>{shiftStats.customersLost}</td>
+          </tr>
+          <tr>
+            <td>Score</td>
+            <td>{simulation.score}</td>
+          </tr>
+        </tbody>
+      </table>
+      {onRetry && (
+        <button className="hud-button" onClick={onRetry}>
+          Retry shift
+        </button>
+      )}
+      {won && onNextShift && (
+        <button className="hud-button" onClick={onNextShift}>
+          Next shift
+        </button>
+      )}
+      {onWatchReplay && (
+        <button className="hud-button" onClick={onWatchReplay}>
+          Watch replay
+        </button>
+      )}
+      {onQuit && (
+        <button className="hud-button" onClick={onQuit}>
+          Quit to title
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Canvas, ThreeEvent } from "@react-three/fiber";
+import {
+  OrbitControls,
+  Grid,
+  Environment,
+  PerspectiveCamera,
+} from "@react-three/drei";
+import * as THREE from "three";
+import {
+  FIXTURE_KINDS,
+  FixtureKind,
+  SHELF_KINDS,
+  ShelfKind,
+  StoreLayout,
+  validateLayout,
+} from "../game/layout";
+import {
+  findPlacementAt,
+  getPlacementError,
+  placeFixture,
+  removePlacement,
+  rotatePlacement,
+  snapToTile,
+} from "../game/editor";
+import { degreesToRadians, getFootprintRect } from "../game/store";
+import { FixtureModel, Floor, Lighting, Walls, Shelves } from "./Store";
+
+type EditorTool = "place" | "rotate" | "delete";
+
+// Pointer travel (in pixels) above which a click is treated as a camera drag
+const DRAG_THRESHOLD = 4;
+
+// Translucent box showing a footprint, green when the action is allowed
+function FootprintMarker({
+  kind,
+  x,
+  z,
+  rotation,
+  valid,
+}: {
+  kind: ShelfKind | FixtureKind;
+  x: number;
+  z: number;
+  rotation: number;
+  valid: boolean;
+}) {
+  const rect = getFootprintRect({ kind, x, z, rotation });
+
+  return (
+    <mesh position={[x, 0.05, z]}>
+      <boxGeometry args={[rect.maxX - rect.minX, 0.1, rect.maxZ - rect.minZ]} />
+      <meshBasicMaterial
+        color={valid ? "#00ff00" : "#ff0000"}
+        transparent={true}
+        opacity={0.4}
+      />
+    </mesh>
+  );
+}
+
+function EditorScene({
+  layout,
+  tool,
+  kind,
+  rotation,
+  onLayoutChange,
+}: {
+  layout: StoreLayout;
+  tool: EditorTool;
+  kind: ShelfKind | FixtureKind;
+  rotation: number;
+  onLayoutChange: (layout: StoreLayout) => void;
+}) {
+  const [hover, setHover] = useState<{ x: number; z: number } | null>(null);
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    setHover(snapToTile(layout, e.point.x, e.point.z));
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that were really orbit drags
+    if (e.delta > DRAG_THRESHOLD) return;
+
+    const tile = snapToTile(layout, e.point.x, e.point.z);
+    if (tool === "place") {
+      onLayoutChange(placeFixture(layout, kind, tile.x, tile.z, rotation));
+      return;
+    }
+
+    const target = findPlacementAt(layout, e.point.x, e.point.z);
+    if (!target) return;
+    if (tool === "rotate") {
+      onLayoutChange(rotatePlacement(layout, target.id));
+    } else {
+      onLayoutChange(removePlacement(layout, target.id));
+    }
+  };
+
+  const hoveredPlacement =
+    hover && tool !== "place"
+      ? findPlacementAt(layout, hover.x, hover.z)
+      : undefined;
+
+  return (
+    <>
+      <PerspectiveCamera makeDefault position={[0, 9, 7]} />
+      <OrbitControls
+        target={[0, 0, 0]}
+        maxPolarAngle={Math.PI / 2 - 0.1}
+        minDistance={3}
+        maxDistance={20}
+      />
+
+      <Environment preset="city" />
+      <Lighting />
+
+      <Floor layout={layout} />
+      <Walls layout={layout} />
+      <Shelves layout={layout} />
+
+      {/* Tile lines, shifted so they fall on tile edges for odd sizes too */}
+      <Grid
+        args={[layout.floor.width, layout.floor.depth]}
+        position={[
+          (layout.floor.width % 2) * 0.5,
+          0.01,
+          (layout.floor.depth % 2) * 0.5,
+        ]}
+        cellSize={1}
+        sectionSize={0}
+        cellColor="#444444"
+      />
+
+      {/* Invisible plane catching pointer events over the floor */}
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, 0.02, 0]}
+        onPointerMove={handlePointerMove}
+        onPointerOut={() => setHover(null)}
+        onClick={handleClick}
+      >
+        <planeGeometry args={[layout.floor.width, layout.floor.depth]} />
+        <meshBasicMaterial visible={false} side={THREE.DoubleSide} />
+      </mesh>
+
+      {/* Preview of the fixture about to be placed */}
+      {hover && tool === "place" && (
+        <>
+          <FixtureModel
+            kind={kind}
+            position={[hover.x, 0, hover.z]}
+            rotation={[0, degreesToRadians(rotation), 0]}
+          />
+          <FootprintMarker
+            kind={kind}
+            x={hover.x}
+            z={hover.z}
+            rotation={rotation}
+            valid={!getPlacementError(layout, { kind, ...hover, rotation })}
+          />
+        </>
+      )}
+
+      {/* Highlight the fixture a rotate or delete click would hit */}
+      {hoveredPlacement && (
+        <FootprintMarker
+          kind={hoveredPlacement.kind}
+          x={hoveredPlacement.x}
+          z={hoveredPlacement.z}
+          rotation={hoveredPlacement.rotation}
+          valid={
+            tool === "delete" ||
+            !getPlacementError(
+              layout,
+              {
+                ...hoveredPlacement,
+                rotation: (hoveredPlacement.rotation + 90) % 360,
+              },
+              hoveredPlacement.id
+            )
+          }
+        />
+      )}
+    </>
+  );
+}
+
+// Save the layout as a .json file through a temporary download link
+function exportLayout(layout: StoreLayout) {
+  const blob = new Blob([JSON.stringify(layout, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${layout.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Full-screen editor for placing, rotating and deleting store fixtures
+export function LayoutEditor({
+  initialLayout,
+  onPlay,
+  onClose,
+}: {
+  initialLayout: StoreLayout;
+  onPlay: (layout: StoreLayout) => void;
+  onClose: () => void;
+}) {
+  const [layout, setLayout] = useState(initialLayout);
+  const [tool, setTool] = useState<EditorTool>("place");
+  const [kind, setKind] = useState<ShelfKind | FixtureKind>("shelf-boxes");
+  const [rotation, setRotation] = useState(0);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const layoutErrors = validateLayout(layout);
+
+  // R turns the fixture about to be placed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "r") {
+        setRotation((prev) => (prev + 90) % 360);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      setImportErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+
+    const errors = validateLayout(data);
+    setImportErrors(errors);
+    if (errors.length === 0) {
+      setLayout(data as StoreLayout);
+    }
+  };
+
+  return (
+    <>
+      <Canvas camera={{ position: [10, 10, 10], fov: 50 }} shadows>
+        <color attach="background" args={["#f0f0f0"]} />
+        <EditorScene
+          layout={layout}
+          tool={tool}
+          kind={kind}
+          rotation={rotation}
+          onLayoutChange={setLayout}
+        />
+      </Canvas>
+
+      <div className="editor-panel">
+        <input
+          className="editor-name"
+          value={layout.name}
+          onChange={(e) => setLayout({ ...layout, name: e.target.value })}
+        />
+
+        <div className="editor-section">Tool</div>
+        {(["place", "rotate", "delete"] as EditorTool[]).map((option) => (
+          <button
+            key={option}
+            className={tool === option ? "selected" : ""}
+            onClick={() => setTool(option)}
+          >
+            {option}
+          </button>
+        ))}
+
+        <div className="editor-section">Fixture ({rotation}°, R to rotate)</div>
+        {[...SHELF_KINDS, ...FIXTURE_KINDS].map((option) => (
+          <button
+            key={option}
+            className={kind === option ? "selected" : ""}
+            onClick={() => {
+              setKind(option);
+              setTool("place");
+            }}
+          >
+            {option}
+          </button>
+        ))}
+
+        <div className="editor-section">Layout</div>
+        <button onClick={() => exportLayout(layout)}>Export JSON</button>
+        <button onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={handleImport}
+        />
+
+        {[...importErrors, ...layoutErrors].map((error) => (
+          <div key={error} className="editor-error">
+            {error}
+          </div>
+        ))}
+
+        <div className="editor-section" />
+        <button
+          disabled={layoutErrors.length > 0}
+          onClick={() => onPlay(layout)}
+        >
+          Play this layout
+        </button>
+        <button onClick={onClose}>Back to game</button>
+      </div>
+    </>
+  );
+}
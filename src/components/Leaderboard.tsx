@@ -0,0 +1,240 @@
+import React, { useRef, useState } from "react";
+import {
+  HISTORY_VERSION,
+  NO_RUN_FILTER,
+  RunFilter,
+  RunHistory,
+  RunRecord,
+  RunSortKey,
+  filterRuns,
+  markImported,
+  mergeRuns,
+  sortRuns,
+  validateHistory,
+} from "../game/history";
+import { ShiftOutcome } from "../game/simulation";
+
+const SORT_OPTIONS: { key: RunSortKey; label: string }[] = [
+  { key: "score", label: "Score" },
+  { key: "date", label: "Date" },
+  { key: "itemsShelved", label: "Items shelved" },
+  { key: "thievesCaught", label: "Thieves caught" },
+  { key: "duration", label: "Duration" },
+];
+
+const OUTCOME_LABELS: { [outcome in ShiftOutcome]: string } = {
+  quotaMet: "Complete",
+  tooManyStolen: "Robbed",
+  outOfTime: "Out of time",
+};
+
+// Most rows shown at once; the filters narrow down the rest
+const MAX_ROWS = 50;
+
+// Save the history as a .json file through a temporary download link
+function exportHistory(runs: RunRecord[]) {
+  const history: RunHistory = { version: HISTORY_VERSION, runs };
+  const blob = new Blob([JSON.stringify(history, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "mini-market-thief-runs.json";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Finished shifts, best first, with filters and JSON export/import so runs
+// can be compared between players
+export function Leaderboard({
+  runs,
+  onChange,
+  onClose,
+}: {
+  runs: RunRecord[];
+  onChange: (runs: RunRecord[]) => void;
+  onClose: () => void;
+}) {
+  const [sortKey, setSortKey] = useState<RunSortKey>("score");
+  const [filter, setFilter] = useState<RunFilter>(NO_RUN_FILTER);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stores = Array.from(new Set(runs.map((run) => run.store))).sort();
+  const shown = sortRuns(filterRuns(runs, filter), sortKey);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      setImportErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+
+    const errors = validateHistory(data);
+    setImportErrors(errors);
+    if (errors.length === 0) {
+      const source = file.name.replace(/\.json$/i, "");
+      onChange(
+        mergeRuns(runs, markImported((data as RunHistory).runs, source))
+      );
+    }
+  };
+
+  return (
+    <div className="message-display leaderboard">
+      <div className="leaderboard-title">High Scores</div>
+
+      <div className="leaderboard-filters">
+        <label>
+          Sort by{" "}
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as RunSortKey)}
+          >
+            {SORT_OPTIONS.map(({ key, label }) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Store{" "}
+          <select
+            value={filter.store ?? ""}
+            onChange={(e) =>
+              setFilter({ ...filter, store: e.target.value || null })
+            }
+          >
+            <option value="">All</option>
+            {stores.map((store) => (
+              <option key={store} value={store}>
+                {store}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Result{" "}
+          <select
+            value={filter.outcome ?? ""}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                outcome: (e.target.value as ShiftOutcome) || null,
+              })
+            }
+          >
+            <option value="">All</option>
+            {(Object.keys(OUTCOME_LABELS) as ShiftOutcome[]).map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {OUTCOME_LABELS[outcome]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Player{" "}
+          <select
+            value={filter.source}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                source: e.target.value as RunFilter["source"],
+              })
+            }
+          >
+            <option value="all">All</option>
+            <option value="mine">Mine</option>
+            <option value="imported">Imported</option>
+          </select>
+        </label>
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="leaderboard-empty">
+          {runs.length === 0
+            ? "No finished shifts yet"
+            : "No runs match these filters"}
+        </div>
+      ) : (
+        <div className="leaderboard-table">
+          <table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Score</th>
+                <th>Shift</th>
+                <th>Result</th>
+                <th>Shelved</th>
+                <th>Caught</th>
+                <th>Stolen</th>
+                <th>Time</th>
+                <th>Store</th>
+                <th>Seed</th>
+                <th>Date</th>
+                <th>Player</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.slice(0, MAX_ROWS).map((run, i) => (
+                <tr key={run.id}>
+                  <td>{i + 1}</td>
+                  <td>{run.score}</td>
+                  <td>{run.shiftNumber}</td>
+                  <td>{OUTCOME_LABELS[run.outcome]}</td>
+                  <td>{run.itemsShelved}</td>
+                  <td>{run.thievesCaught}</td>
+                  <td>{run.itemsStolen}</td>
+                  <td>{formatDuration(run.duration)}</td>
+                  <td>{run.store}</td>
+                  <td>{run.seed}</td>
+                  <td>{new Date(run.date).toLocaleDateString()}</td>
+                  <td>{run.importedFrom ?? "You"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {importErrors.map((error) => (
+        <div key={error} className="leaderboard-error">
+          {error}
+        </div>
+      ))}
+
+      <button className="hud-button" onClick={() => exportHistory(runs)}>
+        Export JSON
+      </button>
+      <button
+        className="hud-button"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        Import JSON
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: "none" }}
+        onChange={handleImport}
+      />
+      <button className="hud-button" onClick={onClose}>
+        Done
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React from "react";
+import { MAX_PLAYERS, getShiftTimeLeft } from "../game/simulation";
+import { SaveSnapshot } from "../game/save";
+import { formatTime } from "./Hud";
+
+// First thing on load, offering to resume the saved run if there is one
+export function TitleScreen({
+  snapshot,
+  onContinue,
+  onNewGame,
+  onOpen,
+}: {
+  snapshot: SaveSnapshot | null;
+  onContinue: () => void;
+  onNewGame: () => void;
+  onOpen: (panel: "leaderboard" | "controls" | "sound") => void;
+}) {
+  return (
+    <div className="message-display menu-screen">
+      <div className="menu-title">Mini Market Thief</div>
+      {snapshot && (
+        <>
+          <div>
+            Shift {snapshot.state.shiftNumber} in {snapshot.state.layout.name},{" "}
+            {formatTime(getShiftTimeLeft(snapshot.state))} left, score{" "}
+            {snapshot.state.score}
+          </div>
+          <div className="menu-note">
+            Saved {new Date(snapshot.savedAt).toLocaleString()}
+          </div>
+          <button className="hud-button" onClick={onContinue}>
+            Continue
+          </button>
+        </>
+      )}
+      <button className="hud-button" onClick={onNewGame}>
+        New game
+      </button>
+      <button className="hud-button" onClick={() => onOpen("leaderboard")}>
+        Scores
+      </button>
+      <button className="hud-button" onClick={() => onOpen("controls")}>
+        Controls
+      </button>
+      <button className="hud-button" onClick={() => onOpen("sound")}>
+        Sound
+      </button>
+    </div>
+  );
+}
+
+// How to play the new game: alone, two to a keyboard, or in a store of the
+// player's own making
+export function ModeSelect({
+  onStart,
+  onTutorial,
+  onEditStore,
+  onBack,
+}: {
+  onStart: (playerCount: number) => void;
+  onTutorial: () => void;
+  onEditStore: () => void;
+  onBack: () => void;
+}) {
+  return (
+    <div className="message-display menu-screen">
+      <div className="menu-title">New game</div>
+      <button className="hud-button" onClick={() => onStart(1)}>
+        Solo
+      </button>
+      <button className="hud-button" onClick={() => onStart(MAX_PLAYERS)}>
+        Co-op
+      </button>
+      <button className="hud-button" onClick={onTutorial}>
+        Tutorial
+      </button>
+      <button className="hud-button" onClick={onEditStore}>
+        Edit store
+      </button>
+      <div className="menu-note">
+        Co-op is split-screen, sharing the keyboard or with a gamepad each. The
+        tutorial walks through the basics. Saving from the editor starts a game
+        in the new store.
+      </div>
+      <button className="hud-button" onClick={onBack}>
+        Back
+      </button>
+    </div>
+  );
+}
+
+// Restart and replay are left out without a handler, e.g. in the tutorial
+export function PauseMenu({
+  onResume,
+  onRestart,
+  onWatchReplay,
+  onOpen,
+  onQuit,
+  quitLabel,
+}: {
+  onResume: () => void;
+  onRestart?: () => void;
+  onWatchReplay?: () => void;
+  onOpen: (panel: "controls" | "sound") => void;
+  onQuit: () => void;
+  quitLabel: string;
+}) {
+  return (
+    <div className="message-display menu-screen">
+      <div className="menu-title">Paused</div>
+      <button className="hud-button" onClick={onResume}>
+        Resume
+      </button>
+      {onRestart && (
+        <button className="hud-button" onClick={onRestart}>
+          Restart shift
+        </button>
+      )}
+      {onWatchReplay && (
+        <button className="hud-button" onClick={onWatchReplay}>
+          Watch replay
+        </button>
+      )}
+      <button className="hud-button" onClick={() => onOpen("controls")}>
+        Controls
+      </button>
+      <button className="hud-button" onClick={() => onOpen("sound")}>
+        Sound
+      </button>
+      <button className="hud-button" onClick={onQuit}>
+        {quitLabel}
+      </button>
+      <div className="menu-note">Escape or Start to resume.</div>
+    </div>
+  );
+}
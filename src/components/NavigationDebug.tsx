@@ -0,0 +1,28 @@
+import { Line } from "@react-three/drei";
+import { NavAgent } from "../game/navigation";
+
+// Debug overlay drawing the route an agent is currently following
+export function PathDebugOverlay({
+  agent,
+  color = "#ff00ff",
+}: {
+  agent: NavAgent;
+  color?: string;
+}) {
+  if (agent.path.length === 0) return null;
+
+  const points = [agent.position, ...agent.path].map(
+    (point) => [point[0], 0.05, point[2]] as [number, number, number]
+  );
+  const goal = points[points.length - 1];
+
+  return (
+    <group>
+      <Line points={points} color={color} lineWidth={3} />
+      <mesh position={goal}>
+        <sphereGeometry args={[0.08, 8, 8]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+    </group>
+  );
+}
@@ -0,0 +1,86 @@
+import { DEFAULT_BINDINGS, getKeyActions } from "../game/input";
+import { PlayerControls } from "./GameState";
+import {
+  getActiveBindings,
+  getPlayerGamepad,
+  readPlayerInputs,
+} from "./PlayerInput";
+
+const [FIRST, SECOND] = DEFAULT_BINDINGS;
+
+// A connected gamepad with the given buttons held and the sticks at rest
+function gamepad(index: number, held: number[] = []): Gamepad {
+  const buttons = Array.from({ length: 16 }, (_, button) => ({
+    pressed: held.includes(button),
+    value: held.includes(button) ? 1 : 0,
+  }));
+  const pad = { index, connected: true, axes: [0, 0], buttons };
+  return pad as unknown as Gamepad;
+}
+
+function controls(keysPressed: { [key: string]: boolean }): PlayerControls {
+  return {
+    bindings: DEFAULT_BINDINGS,
+    keysPressed,
+    queuedActions: [],
+    gamepadHeld: [],
+    touch: { move: [0, 0], held: [] },
+  };
+}
+
+describe("getActiveBindings", () => {
+  it("leaves a single player all of their keys", () => {
+    expect(getActiveBindings(DEFAULT_BINDINGS, 1)).toEqual([FIRST]);
+  });
+
+  it("gives keys bound for both players to the second in co-op", () => {
+    const [first, second] = getActiveBindings(DEFAULT_BINDINGS, 2);
+    expect(getKeyActions(first, "ArrowUp")).toEqual([]);
+    expect(getKeyActions(first, "w")).toEqual(["moveUp"]);
+    expect(second).toBe(SECOND);
+  });
+});
+
+describe("getPlayerGamepad", () => {
+  const pads = [gamepad(0), gamepad(1)];
+
+  it("gives the only gamepad to the last player", () => {
+    expect(getPlayerGamepad([pads[0]], 0, 1)).toBe(pads[0]);
+    expect(getPlayerGamepad([pads[0]], 0, 2)).toBeNull();
+    expect(getPlayerGamepad([pads[0]], 1, 2)).toBe(pads[0]);
+  });
+
+  it("gives each player their own with enough to go round", () => {
+    expect(getPlayerGamepad(pads, 0, 2)).toBe(pads[0]);
+    expect(getPlayerGamepad(pads, 1, 2)).toBe(pads[1]);
+    expect(getPlayerGamepad(pads, 0, 1)).toBe(pads[0]);
+  });
+});
+
+describe("readPlayerInputs", () => {
+  const [first, second] = getActiveBindings(DEFAULT_BINDINGS, 2);
+
+  it("moves each co-op player with their own side of the keyboard", () => {
+    const moving = (keys: PlayerControls["keysPressed"]) =>
+      [first, second].map((bindings, player) => {
+        const { move } = readPlayerInputs(
+          controls(keys),
+          player,
+          bindings,
+          null,
+          0
+        );
+        return move[0] !== 0 || move[1] !== 0;
+      });
+    expect(moving({ w: true })).toEqual([true, false]);
+    expect(moving({ arrowup: true })).toEqual([false, true]);
+  });
+
+  it("presses a gamepad button once, not on every frame it's held", () => {
+    const state = controls({});
+    const pad = gamepad(0, [SECOND.buttons.catch[0]]);
+    expect(readPlayerInputs(state, 1, second, pad, 0).catch).toBe(true);
+    expect(readPlayerInputs(state, 1, second, pad, 0).catch).toBe(false);
+    expect(readPlayerInputs(state, 0, first, null, 0).catch).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { SimulationInputs } from "../game/simulation";
+import {
+  InputAction,
+  InputBindings,
+  mergeActions,
+  readActions,
+  withoutKeys,
+} from "../game/input";
+import { PlayerControls } from "./GameState";
+
+// Connected gamepads, in the order the browser lists them
+export function getGamepads(): Gamepad[] {
+  return Array.from(navigator.getGamepads?.() ?? []).filter(
+    (gamepad): gamepad is Gamepad => !!gamepad?.connected
+  );
+}
+
+// Gamepads go to the last players first, so in co-op with a single gamepad
+// the second player has it and the first plays on the keyboard
+export function getPlayerGamepad(
+  gamepads: Gamepad[],
+  player: number,
+  playerCount: number
+): Gamepad | null {
+  const offset = Math.max(0, playerCount - gamepads.length);
+  return player >= offset ? gamepads[player - offset] ?? null : null;
+}
+
+// Each player's bindings as they apply right now. In co-op a key bound for
+// more than one player only works for the later one.
+export function getActiveBindings(
+  bindings: InputBindings[],
+  playerCount: number
+): InputBindings[] {
+  return bindings
+    .slice(0, playerCount)
+    .map((own, player) =>
+      bindings.slice(player + 1, playerCount).reduce(withoutKeys, own)
+    );
+}
+
+// Turn a player's keys, gamepad and, for the first player, touch controls
+// into simulation inputs, with movement relative to their camera, which
+// looks along `cameraAngle` around the y axis
+export function readPlayerInputs(
+  controls: PlayerControls,
+  player: number,
+  bindings: InputBindings,
+  gamepad: Gamepad | null,
+  cameraAngle: number
+): SimulationInputs {
+  const { move, held } = mergeActions(
+    readActions(bindings, controls.keysPressed, gamepad),
+    player === 0 ? controls.touch : { move: [0, 0], held: [] }
+  );
+
+  // A gamepad press is a button held now that wasn't last frame
+  const gamepadHeld = gamepad ? readActions(bindings, {}, gamepad).held : [];
+  const wasHeld = controls.gamepadHeld[player] ?? [];
+  const queued = controls.queuedActions[player] ?? [];
+  const pressed = (action: InputAction) =>
+    queued.includes(action) ||
+    (gamepadHeld.includes(action) && !wasHeld.includes(action));
+
+  const inputs: SimulationInputs = {
+    move: [0, 0],
+    interact: pressed("interact"),
+    catch: pressed("catch"),
+    cart: pressed("cart"),
+    drop: pressed("drop"),
+    aim: held.includes("throw"),
+    sprint: held.includes("sprint"),
+  };
+  controls.gamepadHeld[player] = gamepadHeld;
+
+  const [moveX, moveY] = move;
+  if (moveX !== 0 || moveY !== 0) {
+    // Angle relative to the camera, 0 being straight ahead
+    const moveAngle = Math.atan2(-moveX, moveY) + cameraAngle + Math.PI;
+    const speed = Math.min(1, Math.sqrt(moveX * moveX + moveY * moveY));
+    inputs.move = [Math.sin(moveAngle) * speed, Math.cos(moveAngle) * speed];
+  }
+
+  return inputs;
+}
+
+// Longest step we hand to the simulation, so a backgrounded tab doesn't
+// teleport everyone when it comes back
+export const MAX_FRAME_DELTA = 0.1;
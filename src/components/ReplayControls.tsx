@@ -0,0 +1,134 @@
+import React, { useRef, useState } from "react";
+import {
+  InputRecording,
+  migrateRecording,
+  validateRecording,
+} from "../game/replay";
+import { TICK } from "../game/simulation";
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Save the recording as a .json file through a temporary download link
+function exportRecording(recording: InputRecording) {
+  const blob = new Blob([JSON.stringify(recording)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `replay-${recording.start.seed}-shift-${recording.start.shiftNumber}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatTick(tick: number): string {
+  const whole = Math.floor(tick * TICK);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Play/pause, seek bar and speed for the replay viewer, plus exporting the
+// recording for a bug report and importing someone else's
+export function ReplayControls({
+  recording,
+  tick,
+  length,
+  playing,
+  speed,
+  onPlayingChange,
+  onSeek,
+  onSpeedChange,
+  onImport,
+  onClose,
+}: {
+  recording: InputRecording;
+  tick: number;
+  length: number;
+  playing: boolean;
+  speed: number;
+  onPlayingChange: (playing: boolean) => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onImport: (recording: InputRecording) => void;
+  onClose: () => void;
+}) {
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = migrateRecording(JSON.parse(await file.text()));
+    } catch (error) {
+      setImportErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+
+    const errors = validateRecording(data);
+    setImportErrors(errors);
+    if (errors.length === 0) {
+      onImport(data as InputRecording);
+    }
+  };
+
+  return (
+    <div className="replay-controls">
+      <div className="replay-timeline">
+        <button
+          className="hud-button"
+          onClick={() => {
+            // Play from the start again once the end is reached
+            if (!playing && tick >= length) onSeek(0);
+            onPlayingChange(!playing);
+          }}
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={length}
+          value={tick}
+          onChange={(e) => onSeek(Number(e.target.value))}
+        />
+        <span className="replay-time">
+          {formatTick(tick)} / {formatTick(length)}
+        </span>
+      </div>
+
+      <div className="replay-options">
+        Speed{" "}
+        {REPLAY_SPEEDS.map((option) => (
+          <button
+            key={option}
+            className={option === speed ? "selected" : ""}
+            onClick={() => onSpeedChange(option)}
+          >
+            {option}×
+          </button>
+        ))}
+        <button onClick={() => exportRecording(recording)}>Export JSON</button>
+        <button onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={handleImport}
+        />
+        <button onClick={onClose}>Back to game</button>
+      </div>
+
+      {importErrors.map((error) => (
+        <div key={error} className="replay-error">
+          {error}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,989 @@
+import React, {
+  useRef,
+  useState,
+  useCallback,
+  useContext,
+  useMemo,
+} from "react";
+import { useLoader, useFrame, extend } from "@react-three/fiber";
+import {
+  Billboard,
+  Line,
+  OrbitControls,
+  Environment,
+  PerspectiveCamera,
+  Text,
+  shaderMaterial,
+} from "@react-three/drei";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader";
+import * as THREE from "three";
+import { Item, ItemType, isNearItem } from "../game/items";
+import {
+  ThiefState,
+  CartState,
+  CustomerState,
+  ThrownItem,
+  getShelfFill,
+  getImpatience,
+  getThrowArc,
+  isThiefRevealed,
+} from "../game/simulation";
+import { ShelfPosition, Vec3 } from "../game/store";
+import { CART_CONSTANTS } from "../game/cart";
+import { THROW_CONSTANTS } from "../game/throwing";
+import {
+  Floor,
+  Lighting,
+  ShelfStockGauges,
+  Shelves,
+  StoreModel,
+  Walls,
+} from "./Store";
+import { AudioSystem } from "./Audio";
+import { PathDebugOverlay } from "./NavigationDebug";
+import { PausedContext, useGameState, useSimulationEvents } from "./GameState";
+
+// Create a custom outline shader material
+const OutlineMaterial = shaderMaterial(
+  {
+    color: new THREE.Color("#ffffff"),
+    thickness: 0.03,
+  },
+  // Vertex shader
+  `
+    uniform float thickness;
+    
+    void main() {
+      vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+      vec4 viewPosition = viewMatrix * worldPosition;
+      
+      // Move vertex along normal direction
+      vec3 normal = normalize(normalMatrix * normal);
+      viewPosition.xyz += normal * thickness;
+      
+      gl_Position = projectionMatrix * viewPosition;
+    }
+  `,
+  // Fragment shader
+  `
+    uniform vec3 color;
+    
+    void main() {
+      gl_FragColor = vec4(color, 1.0);
+    }
+  `
+);
+
+// Extend Three.js with our custom material
+extend({ OutlineMaterial });
+
+// Add type declarations for the custom material
+declare global {
+  namespace JSX {
+    interface IntrinsicElements {
+      outlineMaterial: React.DetailedHTMLProps<
+        React.HTMLAttributes<HTMLElement>,
+        HTMLElement
+      > & {
+        color?: THREE.Color;
+        thickness?: number;
+        transparent?: boolean;
+      };
+    }
+  }
+}
+
+// `?debug=nav` draws the paths NPCs are following
+const SHOW_NAV_DEBUG =
+  new URLSearchParams(window.location.search).get("debug") === "nav";
+
+// Item component to represent pickable items
+function ItemObject({ item }: { item: Item }) {
+  const { heldItems, simulationRef } = useGameState();
+  const isHeld = heldItems.some((held) => held?.id === item.id);
+  const meshRef = useRef<THREE.Mesh>(null);
+  const outlineRef = useRef<THREE.Mesh>(null);
+  const [isNearPlayer, setIsNearPlayer] = useState(false);
+  // Highlight colours of the thieves after this item, comma separated so the
+  // state only changes when the set of thieves does
+  const [thiefTargetColors, setThiefTargetColors] = useState("");
+  const [pulseValue, setPulseValue] = useState(0);
+  const [floatOffset, setFloatOffset] = useState(0);
+  const paused = useContext(PausedContext);
+
+  // Floating animation and check if near player
+  useFrame(({ clock }) => {
+    if (meshRef.current && !item.onShelf && !isHeld && !paused) {
+      // Enhanced floating animation - more pronounced
+      const floatHeight = Math.sin(clock.getElapsedTime() * 1.2) * 0.1;
+      setFloatOffset(floatHeight);
+
+      // Apply floating to the item
+      meshRef.current.position.y = floatHeight;
+
+      if (outlineRef.current) {
+        // Sync outline with item position
+        outlineRef.current.position.y = floatHeight;
+
+        // Pulsing animation for outline
+        const pulse = Math.sin(clock.getElapsedTime() * 4) * 0.5 + 0.5; // 0 to 1 pulsing
+        setPulseValue(pulse);
+      }
+
+      // Check if near a player to show outline
+      const { players, thieves } = simulationRef.current;
+      setIsNearPlayer(
+        players.some((player) => isNearItem(player.position, item))
+      );
+
+      // Check which thieves are after this item
+      setThiefTargetColors(
+        thieves
+          .filter(
+            (thief) => isThiefRevealed(thief) && thief.targetItemId === item.id
+          )
+          .map((thief) => thief.archetype.color)
+          .join(",")
+      );
+    }
+  });
+
+  // Don't render if a player is holding this item
+  if (isHeld) {
+    return null;
+  }
+
+  // Calculate outline scale - make it larger and pulsing
+  const outlineScale = item.type.scale.map(
+    (v) => v * (1.25 + pulseValue * 0.1)
+  ) as [number, number, number];
+
+  // Add a slight rotation to the floating items
+  const floatRotation = [
+    Math.sin(Date.now() * 0.001) * 0.05,
+    Math.cos(Date.now() * 0.0015) * 0.05,
+    0,
+  ] as [number, number, number];
+
+  return (
+    <group
+      position={[item.position[0], item.position[1] + 0.2, item.position[2]]}
+    >
+      {/* Double outline effect when player is near */}
+      {isNearPlayer && !item.onShelf && (
+        <>
+          {/* Outer glow */}
+          <mesh ref={outlineRef} scale={outlineScale} rotation={floatRotation}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial
+              color="#ffffff"
+              transparent={true}
+              opacity={0.7 + pulseValue * 0.3}
+              side={THREE.BackSide}
+            />
+          </mesh>
+
+          {/* Inner outline */}
+          <mesh
+            scale={
+              item.type.scale.map((v) => v * 1.1) as [number, number, number]
+            }
+            rotation={floatRotation}
+          >
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial
+              color="#ffffff"
+              transparent={true}
+              opacity={0.5}
+              side={THREE.BackSide}
+            />
+          </mesh>
+        </>
+      )}
+
+      {/* Thief target indicators, one shell per thief */}
+      {thiefTargetColors !== "" &&
+        !item.onShelf &&
+        thiefTargetColors.split(",").map((color, i) => (
+          <mesh
+            key={i}
+            scale={
+              item.type.scale.map((v) => v * (1.3 + i * 0.15)) as [
+                number,
+                number,
+                number
+              ]
+            }
+            rotation={floatRotation}
+          >
+            <boxGeometry args={[1, 1, 1]} />
+            <meshBasicMaterial
+              color={color}
+              transparent={true}
+              opacity={0.3 + pulseValue * 0.3}
+              side={THREE.BackSide}
+            />
+          </mesh>
+        ))}
+
+      {/* The actual item */}
+      <mesh ref={meshRef} scale={item.type.scale} rotation={floatRotation}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color={item.type.color} />
+      </mesh>
+    </group>
+  );
+}
+
+// Tint over the employee uniform for each player, so co-op players can
+// tell themselves apart
+const PLAYER_TINTS = ["#ffffff", "#8fb8ff"];
+
+function Character({ index }: { index: number }) {
+  const { simulation, heldItems } = useGameState();
+  const player = simulation.players[index];
+  const playerHoldingItem = heldItems[index] ?? null;
+  const characterRef = useRef<THREE.Group>();
+
+  const materials = useLoader(
+    MTLLoader,
+    "/assets/Models/character-employee.mtl"
+  );
+  const obj = useLoader(
+    OBJLoader,
+    "/assets/Models/character-employee.obj",
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  // Each player gets their own copy of the model, tinted for the second one
+  const model = useMemo(() => {
+    const clone = obj.clone();
+    const tint = new THREE.Color(PLAYER_TINTS[index] ?? PLAYER_TINTS[0]);
+    clone.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        const materials: THREE.Material[] = Array.isArray(child.material)
+          ? child.material
+          : [child.material];
+        const tinted = materials.map((material) => {
+          const copy = material.clone();
+          if ("color" in copy)
+            (copy as THREE.MeshPhongMaterial).color.multiply(tint);
+          return copy;
+        });
+        child.material = Array.isArray(child.material) ? tinted : tinted[0];
+      }
+    });
+    return clone;
+  }, [obj, index]);
+
+  // Position and facing come from the simulation; the rest is animation
+  const { position, moving } = player;
+  const [rotation, setRotation] = useState<number>(0);
+  const [walkingTime, setWalkingTime] = useState<number>(0);
+  const [idleTime, setIdleTime] = useState<number>(0);
+
+  // Constants
+  const rotationSpeed = 0.15;
+  const walkingAmplitude = 0.08;
+  const walkingFrequency = 10;
+  const idleAmplitude = 0.02;
+  const idleFrequency = 2;
+  const paused = useContext(PausedContext);
+
+  useFrame((_, frameDelta) => {
+    if (!characterRef.current) return;
+    const delta = paused ? 0 : frameDelta;
+
+    // Update animation timers
+    const newWalkingTime = moving ? walkingTime + delta * walkingFrequency : 0;
+    const newIdleTime = idleTime + delta * idleFrequency;
+
+    setWalkingTime(newWalkingTime);
+    setIdleTime(newIdleTime);
+
+    // Apply animations
+    const walkingOffset = moving
+      ? Math.sin(newWalkingTime) * walkingAmplitude
+      : 0;
+    const idleOffset = Math.sin(newIdleTime) * idleAmplitude;
+    const finalY = position[1] + Math.abs(walkingOffset) + Math.abs(idleOffset);
+
+    // Set position with animations
+    characterRef.current.position.set(position[0], finalY, position[2]);
+
+    // Add slight tilt when walking
+    const tiltAmount = moving ? Math.sin(newWalkingTime) * 0.1 : 0;
+    characterRef.current.rotation.z = tiltAmount;
+
+    // Smooth rotation towards the simulated facing
+    let rotationDiff = player.rotation - rotation;
+
+    // Normalize the rotation difference to the shortest path
+    while (rotationDiff > Math.PI) rotationDiff -= Math.PI * 2;
+    while (rotationDiff < -Math.PI) rotationDiff += Math.PI * 2;
+
+    // Apply smooth rotation
+    const newRotation = rotation + rotationDiff * rotationSpeed;
+    setRotation(newRotation);
+    characterRef.current.rotation.y = newRotation;
+  });
+
+  // Render held item without text. While a throw is charging it's drawn
+  // wound back over the shoulder, with the arc it would fly along.
+  const { throwCharge } = player;
+  const throwArc = useMemo(
+    () => getThrowArc(simulation, player),
+    [simulation, player]
+  );
+  const renderHeldItem = useCallback(() => {
+    if (!playerHoldingItem) return null;
+
+    const power = throwCharge / THROW_CONSTANTS.chargeTime;
+    const itemOffsetDistance = 0.4 - power * 0.7;
+    const itemOffsetX = Math.sin(rotation) * itemOffsetDistance;
+    const itemOffsetZ = Math.cos(rotation) * itemOffsetDistance;
+
+    const itemPosition: [number, number, number] = [
+      position[0] + itemOffsetX,
+      position[1] + 0.3 + power * 0.5,
+      position[2] + itemOffsetZ,
+    ];
+
+    return (
+      <>
+        <group position={itemPosition} rotation={[0, rotation, 0]}>
+          <mesh scale={playerHoldingItem.type.scale}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial color={playerHoldingItem.type.color} />
+          </mesh>
+        </group>
+
+        {throwArc.length > 1 && (
+          <Line
+            points={throwArc}
+            color={new THREE.Color("#ffffff").lerp(
+              new THREE.Color("#ff4400"),
+              power
+            )}
+            lineWidth={2}
+            dashed={true}
+            dashSize={0.1}
+            gapSize={0.08}
+          />
+        )}
+      </>
+    );
+  }, [playerHoldingItem, position, rotation, throwCharge, throwArc]);
+
+  return (
+    <>
+      <primitive
+        ref={characterRef}
+        object={model}
+        position={[0, 0, 0]}
+        scale={[0.8, 0.8, 0.8]}
+      />
+
+      {renderHeldItem()}
+
+      {simulation.players.length > 1 && (
+        <Billboard position={[position[0], position[1] + 1.3, position[2]]}>
+          <Text
+            fontSize={0.18}
+            color={PLAYER_TINTS[index]}
+            outlineWidth={0.01}
+            outlineColor="#000000"
+          >
+            P{index + 1}
+          </Text>
+        </Billboard>
+      )}
+    </>
+  );
+}
+
+// Component to display a visual effect when an item is placed on a shelf
+function ShelfPlacementEffect({
+  position,
+  itemType,
+  points,
+}: {
+  position: { x: number; z: number };
+  itemType: ItemType;
+  points: number;
+}) {
+  const [scale, setScale] = useState(0.1);
+  const [opacity, setOpacity] = useState(1.0);
+  const paused = useContext(PausedContext);
+
+  // Animation effect
+  useFrame(() => {
+    if (paused) return;
+    // Increase scale and decrease opacity over time
+    setScale((prev) => Math.min(prev + 0.03, 1.5));
+    setOpacity((prev) => Math.max(prev - 0.02, 0));
+  });
+
+  return (
+    <group position={[position.x, 0.5, position.z]}>
+      {/* Success indicator */}
+      <mesh scale={[scale, scale, scale]}>
+        <sphereGeometry args={[0.5, 16, 16]} />
+        <meshBasicMaterial
+          color="#00ff00"
+          transparent={true}
+          opacity={opacity}
+        />
+      </mesh>
+
+      {/* Item silhouette */}
+      <mesh
+        scale={itemType.scale.map((v) => v * scale) as [number, number, number]}
+      >
+        <boxGeometry args={[1, 1, 1]} />
+        <meshBasicMaterial
+          color={itemType.color}
+          transparent={true}
+          opacity={opacity * 0.7}
+        />
+      </mesh>
+
+      {/* Text label */}
+      <group visible={opacity > 0.1}>
+        <Text
+          position={[0, 0.5 * scale, 0]}
+          fontSize={0.2 * scale}
+          color="#ffffff"
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.02}
+          outlineColor="#00aa00"
+        >
+          +{points}
+        </Text>
+      </group>
+    </group>
+  );
+}
+
+// Simplified GameManager - just renders items and score
+function GameManager() {
+  const { items, simulation } = useGameState();
+  const [shelfEffects, setShelfEffects] = useState<
+    {
+      position: ShelfPosition;
+      itemType: ItemType;
+      points: number;
+      createdAt: number;
+    }[]
+  >([]);
+
+  // Show a brief visual effect at the shelf position when an item is shelved
+  useSimulationEvents((event) => {
+    if (event.type !== "itemShelved") return;
+
+    setShelfEffects((effects) => [
+      ...effects,
+      {
+        position: event.shelf,
+        itemType: event.item.type,
+        points: event.points,
+        createdAt: Date.now(),
+      },
+    ]);
+
+    // Remove old effects after 2 seconds to prevent memory leaks
+    setTimeout(() => {
+      setShelfEffects((effects) => effects.slice(1));
+    }, 2000);
+  });
+
+  return (
+    <group>
+      {/* Render all items */}
+      {items.map((item) => (
+        <ItemObject key={item.id} item={item} />
+      ))}
+      {simulation.thrownItems.map((thrown) => (
+        <ThrownItemObject key={thrown.item.id} thrown={thrown} />
+      ))}
+
+      {/* Render shelf placement effects */}
+      {shelfEffects.map((effect, index) => (
+        <ShelfPlacementEffect
+          key={`effect-${effect.createdAt}-${index}`}
+          position={effect.position}
+          itemType={effect.itemType}
+          points={effect.points}
+        />
+      ))}
+    </group>
+  );
+}
+
+// Pulsing yellow box over a shelf the held item goes on
+function TargetShelf({ position }: { position: { x: number; z: number } }) {
+  const [pulseValue, setPulseValue] = useState(0);
+  const paused = useContext(PausedContext);
+
+  // Pulsing animation for the highlight
+  useFrame(({ clock }) => {
+    if (paused) return;
+    const pulse = Math.sin(clock.getElapsedTime() * 3) * 0.5 + 0.5; // 0 to 1 pulsing
+    setPulseValue(pulse);
+  });
+
+  return (
+    <group position={[position.x, 0.5, position.z]}>
+      <mesh scale={[1.2, 1.2, 1.2]}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshBasicMaterial
+          color="#ffff00"
+          transparent={true}
+          opacity={0.3 + pulseValue * 0.3}
+          side={THREE.BackSide}
+        />
+      </mesh>
+    </group>
+  );
+}
+
+// Bar above a character's head, e.g. how close a thief is to being spooked
+// or a customer to giving up on the queue
+function OverheadMeter({
+  position,
+  value,
+  from = "#ffdd00",
+  to = "#ff2200",
+}: {
+  position: [number, number, number];
+  value: number; // 0 to 1
+  from?: string; // Bar color when nearly empty
+  to?: string; // Bar color when full
+}) {
+  const width = 0.5;
+  const color = new THREE.Color(from).lerp(new THREE.Color(to), value);
+
+  return (
+    <Billboard position={[position[0], position[1] + 1.1, position[2]]}>
+      <mesh>
+        <planeGeometry args={[width, 0.07]} />
+        <meshBasicMaterial color="#333333" />
+      </mesh>
+      <mesh position={[(-width * (1 - value)) / 2, 0, 0.001]}>
+        <planeGeometry args={[width * value, 0.05]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+    </Billboard>
+  );
+}
+
+// Walking NPC drawn with one of the character models, carrying a stack of
+// products. Thieves and customers share it so they look alike.
+function NpcCharacter({
+  model,
+  position,
+  rotation,
+  moving,
+  carrying,
+}: {
+  model: string;
+  position: Vec3;
+  rotation: number;
+  moving: boolean;
+  carrying: ItemType[];
+}) {
+  const npcRef = useRef<THREE.Group>();
+  const materials = useLoader(
+    MTLLoader,
+    `/assets/CharacterModels/${model}.mtl`
+  );
+  const obj = useLoader(
+    OBJLoader,
+    `/assets/CharacterModels/${model}.obj`,
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  const [walkingTime, setWalkingTime] = useState<number>(0);
+
+  // Constants
+  const walkingAmplitude = 0.08;
+  const walkingFrequency = 12; // Faster animation
+  const paused = useContext(PausedContext);
+
+  // NPC behavior lives in the simulation; this only animates it
+  useFrame((_, frameDelta) => {
+    if (!npcRef.current) return;
+    const delta = paused ? 0 : frameDelta;
+
+    // Update walking animation
+    setWalkingTime((prev) => (moving ? prev + delta * walkingFrequency : 0));
+    const walkingOffset = Math.sin(walkingTime) * walkingAmplitude;
+    const finalY = position[1] + Math.abs(walkingOffset);
+
+    // Apply position and animation
+    npcRef.current.position.set(position[0], finalY, position[2]);
+
+    // Add slight tilt when walking
+    const tiltAmount = Math.sin(walkingTime) * 0.1;
+    npcRef.current.rotation.z = tiltAmount;
+    npcRef.current.rotation.y = rotation;
+  });
+
+  // Render carried products stacked in the NPC's arms
+  const renderCarriedItems = () => {
+    if (carrying.length === 0) return null;
+
+    const itemOffsetDistance = 0.4;
+    const itemOffsetX = Math.sin(rotation) * itemOffsetDistance;
+    const itemOffsetZ = Math.cos(rotation) * itemOffsetDistance;
+
+    let stackHeight = 0;
+    return carrying.map((type, index) => {
+      const height = type.scale[1];
+      const itemPosition: [number, number, number] = [
+        position[0] + itemOffsetX,
+        position[1] + 0.3 + stackHeight,
+        position[2] + itemOffsetZ,
+      ];
+      stackHeight += height;
+
+      return (
+        <group key={index} position={itemPosition} rotation={[0, rotation, 0]}>
+          <mesh scale={type.scale}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial color={type.color} />
+          </mesh>
+        </group>
+      );
+    });
+  };
+
+  return (
+    <>
+      <primitive
+        ref={npcRef}
+        object={obj.clone()}
+        position={[0, 0, 0]}
+        scale={[0.8, 0.8, 0.8]}
+      />
+
+      {renderCarriedItems()}
+    </>
+  );
+}
+
+// Thief character that steals items. It passes for a customer until it's
+// holding something it stole.
+function Thief({
+  thief,
+  controlled = false,
+}: {
+  thief: ThiefState;
+  controlled?: boolean; // The one this client steers in versus
+}) {
+  const { position, suspicion } = thief;
+
+  return (
+    <>
+      <NpcCharacter
+        model={thief.archetype.model}
+        position={position}
+        rotation={thief.rotation}
+        moving={thief.moving}
+        carrying={thief.holdingItems.map((item) => item.type)}
+      />
+
+      {/* Over an undercover thief the meter would give it away, so only its
+          own player sees it there. The HUD shows the rest. */}
+      {(controlled || isThiefRevealed(thief)) && suspicion > 0 && (
+        <OverheadMeter position={position} value={suspicion} />
+      )}
+
+      {thief.stunTimer > 0 && <StunStars position={position} />}
+
+      {controlled && (
+        <Billboard position={[position[0], position[1] + 1.3, position[2]]}>
+          <Text
+            fontSize={0.18}
+            color={thief.archetype.color}
+            outlineWidth={0.01}
+            outlineColor="#000000"
+          >
+            You
+          </Text>
+        </Billboard>
+      )}
+    </>
+  );
+}
+
+// Little stars circling the head of a thief dazed by a thrown item
+function StunStars({ position }: { position: Vec3 }) {
+  const groupRef = useRef<THREE.Group>(null);
+  const paused = useContext(PausedContext);
+
+  useFrame((_, delta) => {
+    if (groupRef.current && !paused) {
+      groupRef.current.rotation.y += delta * 4;
+    }
+  });
+
+  return (
+    <group
+      ref={groupRef}
+      position={[position[0], position[1] + 1, position[2]]}
+    >
+      {[0, 1, 2].map((i) => {
+        const angle = (i / 3) * Math.PI * 2;
+        return (
+          <mesh
+            key={i}
+            position={[Math.sin(angle) * 0.25, 0, Math.cos(angle) * 0.25]}
+          >
+            <octahedronGeometry args={[0.05]} />
+            <meshBasicMaterial color="#ffee00" />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
+
+// An item flying through the air, tumbling as it goes
+function ThrownItemObject({ thrown }: { thrown: ThrownItem }) {
+  const { item, flightTime } = thrown;
+
+  return (
+    <mesh
+      position={item.position}
+      rotation={[flightTime * 12, flightTime * 7, 0]}
+      scale={item.type.scale}
+    >
+      <boxGeometry args={[1, 1, 1]} />
+      <meshStandardMaterial color={item.type.color} />
+    </mesh>
+  );
+}
+
+// The shopping cart with whatever the player has loaded into it
+function Cart({ cart }: { cart: CartState }) {
+  const { position, rotation } = cart;
+
+  let stackHeight = 0;
+  return (
+    <>
+      <StoreModel
+        name={CART_CONSTANTS.model}
+        position={[position[0], 0, position[2]]}
+        rotation={[0, rotation, 0]}
+      />
+
+      <group
+        position={[position[0], 0.45, position[2]]}
+        rotation={[0, rotation, 0]}
+      >
+        {cart.items.map((item, index) => {
+          const height = item.type.scale[1];
+          const itemPosition: [number, number, number] = [
+            ((index % 2) - 0.5) * 0.2,
+            stackHeight + height / 2,
+            0,
+          ];
+          if (index % 2 === 1) stackHeight += height;
+          return (
+            <mesh key={item.id} position={itemPosition} scale={item.type.scale}>
+              <boxGeometry args={[1, 1, 1]} />
+              <meshStandardMaterial color={item.type.color} />
+            </mesh>
+          );
+        })}
+      </group>
+    </>
+  );
+}
+
+// Shopper with their basket. In the checkout queue a bar shows how close
+// they are to giving up.
+function Customer({
+  customer,
+  impatience,
+}: {
+  customer: CustomerState;
+  impatience: number;
+}) {
+  return (
+    <>
+      <NpcCharacter
+        model={customer.model}
+        position={customer.position}
+        rotation={customer.rotation}
+        moving={customer.moving}
+        carrying={customer.basket}
+      />
+
+      {customer.mode === "queueing" && (
+        <OverheadMeter
+          position={customer.position}
+          value={impatience}
+          from="#44dd44"
+        />
+      )}
+    </>
+  );
+}
+
+// Where each split-screen camera sits relative to its player
+export const SPLIT_CAMERA_OFFSET: Vec3 = [0, 6, 5];
+
+// One camera per player side by side, each trailing its player. Rendering
+// the halves by hand takes over from the canvas's own render.
+function SplitScreenCameras() {
+  const { simulationRef } = useGameState();
+  const playerCount = simulationRef.current.players.length;
+  const cameras = useMemo(
+    () =>
+      Array.from(
+        { length: playerCount },
+        () => new THREE.PerspectiveCamera(50, 1, 0.1, 100)
+      ),
+    [playerCount]
+  );
+  const placedRef = useRef(false);
+
+  useFrame(({ gl, scene, size }, delta) => {
+    const players = simulationRef.current.players;
+    const width = size.width / cameras.length;
+    // Catch up quickly but smoothly, except on the very first frame
+    const follow = placedRef.current ? Math.min(1, delta * 5) : 1;
+    placedRef.current = true;
+
+    gl.setScissorTest(true);
+    cameras.forEach((camera, index) => {
+      const player = players[index];
+      if (!player) return;
+      const [x, , z] = player.position;
+      camera.position.lerp(
+        new THREE.Vector3(
+          x + SPLIT_CAMERA_OFFSET[0],
+          SPLIT_CAMERA_OFFSET[1],
+          z + SPLIT_CAMERA_OFFSET[2]
+        ),
+        follow
+      );
+      camera.lookAt(
+        camera.position.x - SPLIT_CAMERA_OFFSET[0],
+        0,
+        camera.position.z - SPLIT_CAMERA_OFFSET[2]
+      );
+      camera.aspect = width / size.height;
+      camera.updateProjectionMatrix();
+
+      gl.setViewport(index * width, 0, width, size.height);
+      gl.setScissor(index * width, 0, width, size.height);
+      gl.render(scene, camera);
+    });
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+  }, 1);
+
+  return null;
+}
+
+// The store and everyone in it. `loop` is what moves the simulation along,
+// live or from a replay; the free camera pans and zooms out further.
+// Highlighted shelves get a TargetShelf, e.g. in the tutorial.
+export function Scene({
+  loop,
+  freeCamera = false,
+  controlledThiefId = null,
+  highlightedShelfIds = [],
+}: {
+  loop: React.ReactNode;
+  freeCamera?: boolean;
+  controlledThiefId?: number | null;
+  highlightedShelfIds?: string[];
+}) {
+  const { simulation, simulationRef, audioSettings, subscribeToEvents } =
+    useGameState();
+  const layout = simulation.layout;
+
+  return (
+    <>
+      <PerspectiveCamera makeDefault position={[0, 5, 5]} />
+      <AudioSystem
+        settings={audioSettings}
+        simulationRef={simulationRef}
+        subscribeToEvents={subscribeToEvents}
+      />
+      {!freeCamera && simulation.players.length > 1 && <SplitScreenCameras />}
+      <OrbitControls
+        target={[0, 0, 0]}
+        maxPolarAngle={Math.PI / 2 - 0.1}
+        minDistance={freeCamera ? 1 : 2}
+        maxDistance={freeCamera ? 25 : 10}
+        enablePan={freeCamera}
+        screenSpacePanning={false}
+      />
+
+      <Environment preset="city" />
+      <Lighting />
+
+      <Floor layout={layout} />
+      <Walls layout={layout} />
+      <Shelves layout={layout} />
+      <ShelfStockGauges
+        layout={layout}
+        fills={Object.fromEntries(
+          layout.shelves.map((shelf) => [
+            shelf.id,
+            getShelfFill(simulation, shelf.id),
+          ])
+        )}
+      />
+
+      {loop}
+      {simulation.players.map((_, index) => (
+        <Character key={index} index={index} />
+      ))}
+      <Cart cart={simulation.cart} />
+      {simulation.thieves.map((thief) => (
+        <Thief
+          key={thief.id}
+          thief={thief}
+          controlled={thief.id === controlledThiefId}
+        />
+      ))}
+      {simulation.customers.map((customer) => (
+        <Customer
+          key={customer.id}
+          customer={customer}
+          impatience={getImpatience(simulation, customer)}
+        />
+      ))}
+
+      <GameManager />
+      {layout.shelves
+        .filter((shelf) => highlightedShelfIds.includes(shelf.id))
+        .map((shelf) => (
+          <TargetShelf key={shelf.id} position={shelf} />
+        ))}
+
+      {SHOW_NAV_DEBUG &&
+        simulation.thieves.map((thief) => (
+          <PathDebugOverlay
+            key={thief.id}
+            agent={thief}
+            color={thief.archetype.color}
+          />
+        ))}
+    </>
+  );
+}
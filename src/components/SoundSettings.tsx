@@ -0,0 +1,69 @@
+import React from "react";
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from "../game/audio";
+
+const VOLUMES: { key: "master" | "music" | "sfx"; label: string }[] = [
+  { key: "master", label: "Master" },
+  { key: "music", label: "Music" },
+  { key: "sfx", label: "Effects" },
+];
+
+// Volume sliders and mute, applied as they're dragged
+export function SoundSettings({
+  settings,
+  onChange,
+  onClose,
+}: {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  onClose: () => void;
+}) {
+  return (
+    <div className="message-display sound-settings">
+      <div className="sound-title">Sound</div>
+      <table>
+        <tbody>
+          {VOLUMES.map(({ key, label }) => (
+            <tr key={key}>
+              <td>{label}</td>
+              <td>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(settings[key] * 100)}
+                  disabled={settings.muted}
+                  onChange={(e) =>
+                    onChange({
+                      ...settings,
+                      [key]: Number(e.target.value) / 100,
+                    })
+                  }
+                />
+              </td>
+              <td>{Math.round(settings[key] * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <label className="sound-mute">
+        <input
+          type="checkbox"
+          checked={settings.muted}
+          onChange={(e) => onChange({ ...settings, muted: e.target.checked })}
+        />{" "}
+        Mute
+      </label>
+      <div>
+        <button
+          className="hud-button"
+          onClick={() => onChange(DEFAULT_AUDIO_SETTINGS)}
+        >
+          Reset to defaults
+        </button>
+        <button className="hud-button" onClick={onClose}>
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useLoader } from "@react-three/fiber";
+import { Billboard } from "@react-three/drei";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader";
+import {
+  FixtureKind,
+  ShelfKind,
+  StoreLayout,
+  WallOpening,
+} from "../game/layout";
+import {
+  TILE_SPACING,
+  degreesToRadians,
+  getStoreOffset,
+  getWallPlacement,
+} from "../game/store";
+import { SIMULATION_CONSTANTS } from "../game/simulation";
+
+// Store models loaded from /assets/Models and placed from a StoreLayout
+
+function Wall({
+  position,
+  rotation,
+}: {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}) {
+  const materials = useLoader(MTLLoader, "/assets/Models/wall.mtl");
+  const obj = useLoader(
+    OBJLoader,
+    "/assets/Models/wall.obj",
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  return (
+    <primitive object={obj.clone()} position={position} rotation={rotation} />
+  );
+}
+
+function Window({
+  position,
+  rotation,
+}: {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}) {
+  const materials = useLoader(MTLLoader, "/assets/Models/wall-window.mtl");
+  const obj = useLoader(
+    OBJLoader,
+    "/assets/Models/wall-window.obj",
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  return (
+    <primitive object={obj.clone()} position={position} rotation={rotation} />
+  );
+}
+
+function Door({
+  position,
+  rotation,
+}: {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}) {
+  const materials = useLoader(MTLLoader, "/assets/Models/wall-door-rotate.mtl");
+  const obj = useLoader(
+    OBJLoader,
+    "/assets/Models/wall-door-rotate.obj",
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  return (
+    <primitive object={obj.clone()} position={position} rotation={rotation} />
+  );
+}
+
+export function Floor({ layout }: { layout: StoreLayout }) {
+  const materials = useLoader(MTLLoader, "/assets/Models/floor.mtl");
+  const originalObj = useLoader(
+    OBJLoader,
+    "/assets/Models/floor.obj",
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  const tiles = [];
+  const offset = getStoreOffset(layout);
+
+  for (let x = 0; x < layout.floor.width; x++) {
+    for (let z = 0; z < layout.floor.depth; z++) {
+      const clonedObj = originalObj.clone();
+      tiles.push(
+        <primitive
+          key={`${x}-${z}`}
+          object={clonedObj}
+          position={[
+            x * TILE_SPACING - offset.x,
+            0,
+            z * TILE_SPACING - offset.z,
+          ]}
+          scale={[1, 1, 1]}
+        />
+      );
+    }
+  }
+
+  return <group>{tiles}</group>;
+}
+
+export function Walls({ layout }: { layout: StoreLayout }) {
+  const walls = [];
+
+  for (const segment of layout.walls) {
+    for (let index = segment.from; index < segment.to; index++) {
+      const { position, rotation } = getWallPlacement(
+        layout,
+        segment.side,
+        index
+      );
+      const isAt = (opening: WallOpening) =>
+        opening.side === segment.side && opening.index === index;
+
+      // Doors and windows replace the plain wall tile at their index
+      if (layout.doors.some(isAt)) {
+        walls.push(
+          <Door
+            key={`${segment.side}-door-${index}`}
+            position={position}
+            rotation={rotation}
+          />
+        );
+      } else if (layout.windows.some(isAt)) {
+        walls.push(
+          <Window
+            key={`${segment.side}-window-${index}`}
+            position={position}
+            rotation={rotation}
+          />
+        );
+      } else {
+        walls.push(
+          <Wall
+            key={`${segment.side}-${index}`}
+            position={position}
+            rotation={rotation}
+          />
+        );
+      }
+    }
+  }
+
+  return <group>{walls}</group>;
+}
+
+// Any model from /assets/Models, looked up by file name without extension
+export function StoreModel({
+  name,
+  position,
+  rotation,
+}: {
+  name: string;
+  position: [number, number, number];
+  rotation: [number, number, number];
+}) {
+  const materials = useLoader(MTLLoader, `/assets/Models/${name}.mtl`);
+  const obj = useLoader(
+    OBJLoader,
+    `/assets/Models/${name}.obj`,
+    (loader: OBJLoader) => {
+      materials.preload();
+      loader.setMaterials(materials);
+    }
+  );
+
+  return (
+    <primitive object={obj.clone()} position={position} rotation={rotation} />
+  );
+}
+
+// Any shelf or fixture model, looked up by kind
+export function FixtureModel({
+  kind,
+  position,
+  rotation,
+}: {
+  kind: ShelfKind | FixtureKind;
+  position: [number, number, number];
+  rotation: [number, number, number];
+}) {
+  return <StoreModel name={kind} position={position} rotation={rotation} />;
+}
+
+export function Shelves({ layout }: { layout: StoreLayout }) {
+  return (
+    <group position={[0, 0, 0]}>
+      {[...layout.shelves, ...layout.fixtures].map((fixture) => (
+        <FixtureModel
+          key={fixture.id}
+          kind={fixture.kind}
+          position={[fixture.x, 0, fixture.z]}
+          rotation={[0, degreesToRadians(fixture.rotation), 0]}
+        />
+      ))}
+    </group>
+  );
+}
+
+// Colour of a stock gauge: red when running low, green when full
+function fillColor(fill: number): string {
+  if (fill < SIMULATION_CONSTANTS.lowStockRatio) return "#ff5555";
+  if (fill < 1) return "#ffcc00";
+  return "#4caf50";
+}
+
+// Fill level bars floating above each shelf, from 0 (empty) to 1 (full)
+export function ShelfStockGauges({
+  layout,
+  fills,
+}: {
+  layout: StoreLayout;
+  fills: { [shelfId: string]: number };
+}) {
+  const width = 0.6;
+
+  return (
+    <>
+      {layout.shelves.map((shelf) => {
+        const fill = Math.min(1, fills[shelf.id] ?? 0);
+        return (
+          <Billboard key={shelf.id} position={[shelf.x, 1.05, shelf.z]}>
+            <mesh>
+              <planeGeometry args={[width, 0.08]} />
+              <meshBasicMaterial color="#333333" />
+            </mesh>
+            {fill > 0 && (
+              <mesh position={[(-width * (1 - fill)) / 2, 0, 0.001]}>
+                <planeGeometry args={[width * fill, 0.06]} />
+                <meshBasicMaterial color={fillColor(fill)} />
+              </mesh>
+            )}
+          </Billboard>
+        );
+      })}
+    </>
+  );
+}
+
+export function Lighting() {
+  return (
+    <>
+      {/* Soft overall ambient light */}
+      <ambientLight intensity={0.6} color="#ffffff" />
+
+      {/* Main directional light - soft warm tone */}
+      <directionalLight
+        position={[5, 8, 5]}
+        intensity={0.7}
+        color="#fff6e6"
+        castShadow
+      />
+
+      {/* Fill light - subtle cool tone */}
+      <directionalLight
+        position={[-5, 3, -5]}
+        intensity={0.3}
+        color="#e6f0ff"
+      />
+
+      {/* Top light for gentle highlights */}
+      <directionalLight position={[0, 10, 0]} intensity={0.2} color="#ffffff" />
+    </>
+  );
+}
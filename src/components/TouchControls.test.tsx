@@ -0,0 +1,95 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ActionState } from "../game/input";
+import { JOYSTICK_RADIUS, TouchControls } from "./TouchControls";
+
+// jsdom has no pointer events or capture, so give it just enough of both
+beforeAll(() => {
+  class FakePointerEvent extends MouseEvent {
+    pointerId: number;
+
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 0;
+    }
+  }
+  window.PointerEvent = FakePointerEvent as typeof PointerEvent;
+  HTMLElement.prototype.setPointerCapture = () => {};
+});
+
+// The controls, with every state they report kept in order
+function renderControls() {
+  const changes: ActionState[] = [];
+  const presses: string[] = [];
+  const { unmount } = render(
+    <TouchControls
+      onChange={(state) => changes.push(state)}
+      onPress={(action) => presses.push(action)}
+    />
+  );
+  const zone = screen.getByLabelText("Joystick");
+  return { zone, changes, presses, unmount };
+}
+
+describe("TouchControls", () => {
+  it("clamps the stick to its radius, with up on screen as forwards", () => {
+    const { zone, changes } = renderControls();
+    const push = (pointerId: number, dx: number, dy: number) =>
+      fireEvent.pointerMove(zone, {
+        pointerId,
+        clientX: 100 + dx * JOYSTICK_RADIUS,
+        clientY: 100 + dy * JOYSTICK_RADIUS,
+      });
+    const expectMove = (x: number, y: number) => {
+      const [moveX, moveY] = changes[changes.length - 1].move;
+      expect(moveX).toBeCloseTo(x);
+      expect(moveY).toBeCloseTo(y);
+    };
+    fireEvent.pointerDown(zone, { pointerId: 1, clientX: 100, clientY: 100 });
+
+    push(1, 0.5, 0);
+    expectMove(0.5, 0);
+    push(1, 3, 4);
+    expectMove(0.6, -0.8);
+    push(1, 0, -10);
+    expectMove(0, 1);
+
+    // Another finger doesn't steer
+    push(2, 0, 10);
+    expectMove(0, 1);
+
+    fireEvent.pointerUp(zone, { pointerId: 1 });
+    expect(changes[changes.length - 1].move).toEqual([0, 0]);
+  });
+
+  it("lets go of held buttons on pointer up and cancel", () => {
+    const { changes, presses } = renderControls();
+    const throwButton = screen.getByText("Throw");
+
+    fireEvent.pointerDown(throwButton, { pointerId: 1 });
+    expect(changes[changes.length - 1].held).toEqual(["throw"]);
+    fireEvent.pointerUp(throwButton, { pointerId: 1 });
+    expect(changes[changes.length - 1].held).toEqual([]);
+
+    fireEvent.pointerDown(throwButton, { pointerId: 2 });
+    fireEvent.pointerCancel(throwButton, { pointerId: 2 });
+    expect(changes[changes.length - 1].held).toEqual([]);
+
+    fireEvent.pointerDown(screen.getByText("Catch"), { pointerId: 3 });
+    expect(presses).toEqual(["catch"]);
+  });
+
+  it("lets go of everything when hidden", () => {
+    const { zone, changes, unmount } = renderControls();
+    fireEvent.pointerDown(zone, { pointerId: 1, clientX: 0, clientY: 0 });
+    fireEvent.pointerMove(zone, { pointerId: 1, clientX: 0, clientY: -50 });
+    fireEvent.pointerDown(screen.getByText("Throw"), { pointerId: 2 });
+    expect(changes[changes.length - 1]).toEqual({
+      move: [0, 1],
+      held: ["throw"],
+    });
+
+    unmount();
+    expect(changes[changes.length - 1]).toEqual({ move: [0, 0], held: [] });
+  });
+});
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ActionState, InputAction } from "../game/input";
+
+// How far the stick can be pushed from where the thumb first landed, in
+// CSS pixels
+export const JOYSTICK_RADIUS = 50;
+
+// Whether the device's main pointer is a finger, or `?touch=1` asks for the
+// on-screen controls anyway
+export function wantsTouchControls(): boolean {
+  return (
+    new URLSearchParams(window.location.search).get("touch") === "1" ||
+    window.matchMedia?.("(pointer: coarse)").matches === true
+  );
+}
+
+// Floating joystick: wherever a thumb lands in the zone becomes the centre
+// of the stick. The zone sits above the canvas and captures its pointer, so
+// steering never turns into a camera orbit; the rest of the screen still
+// orbits and zooms as usual.
+function Joystick({ onMove }: { onMove: (move: [number, number]) => void }) {
+  const pointerRef = useRef<number | null>(null);
+  const [stick, setStick] = useState<{
+    x: number;
+    y: number;
+    dx: number;
+    dy: number;
+  } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerRef.current !== null) return;
+    pointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    setStick({
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      dx: 0,
+      dy: 0,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== pointerRef.current || !stick) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    let dx = e.clientX - rect.left - stick.x;
+    let dy = e.clientY - rect.top - stick.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance > JOYSTICK_RADIUS) {
+      dx = (dx / distance) * JOYSTICK_RADIUS;
+      dy = (dy / distance) * JOYSTICK_RADIUS;
+    }
+
+    setStick({ ...stick, dx, dy });
+    // Screen y grows downwards, movement y grows away from the camera
+    onMove([dx / JOYSTICK_RADIUS, -dy / JOYSTICK_RADIUS]);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== pointerRef.current) return;
+    pointerRef.current = null;
+    setStick(null);
+    onMove([0, 0]);
+  };
+
+  return (
+    <div
+      className="touch-joystick-zone"
+      aria-label="Joystick"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {stick && (
+        <div
+          className="touch-joystick-base"
+          style={{
+            left: stick.x - JOYSTICK_RADIUS,
+            top: stick.y - JOYSTICK_RADIUS,
+            width: JOYSTICK_RADIUS * 2,
+            height: JOYSTICK_RADIUS * 2,
+          }}
+        >
+          <div
+            className="touch-joystick-knob"
+            style={{
+              transform: `translate(${stick.dx}px, ${stick.dy}px)`,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A round on-screen button. Press actions fire once when touched; held
+// actions last until the finger lifts.
+function TouchButton({
+  label,
+  primary = false,
+  onDown,
+  onUp,
+}: {
+  label: string;
+  primary?: boolean;
+  onDown: () => void;
+  onUp?: () => void;
+}) {
+  const [pressed, setPressed] = useState(false);
+
+  return (
+    <button
+      className={`touch-button${primary ? " primary" : ""}${
+        pressed ? " pressed" : ""
+      }`}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setPressed(true);
+        onDown();
+      }}
+      onPointerUp={() => {
+        setPressed(false);
+        onUp?.();
+      }}
+      onPointerCancel={() => {
+        setPressed(false);
+        onUp?.();
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {label}
+    </button>
+  );
+}
+
+// On-screen joystick and action buttons. The layout switches between
+// portrait and landscape in CSS.
+export function TouchControls({
+  onChange,
+  onPress,
+}: {
+  onChange: (state: ActionState) => void;
+  onPress: (action: InputAction) => void;
+}) {
+  const stateRef = useRef<ActionState>({ move: [0, 0], held: [] });
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Hidden with the stick pushed or Throw held, e.g. by pausing: let go, so
+  // the player doesn't carry on walking or charging once they're back
+  useEffect(() => () => onChangeRef.current({ move: [0, 0], held: [] }), []);
+
+  const update = (changes: Partial<ActionState>) => {
+    stateRef.current = { ...stateRef.current, ...changes };
+    onChange(stateRef.current);
+  };
+
+  const hold = (action: InputAction, down: boolean) => {
+    const held = stateRef.current.held.filter((other) => other !== action);
+    update({ held: down ? [...held, action] : held });
+  };
+
+  return (
+    <div className="touch-controls">
+      <Joystick onMove={(move) => update({ move })} />
+      <div className="touch-buttons">
+        <TouchButton label="Drop" onDown={() => onPress("drop")} />
+        <TouchButton
+          label="Throw"
+          onDown={() => hold("throw", true)}
+          onUp={() => hold("throw", false)}
+        />
+        <TouchButton label="Cart" onDown={() => onPress("cart")} />
+        <TouchButton label="Catch" onDown={() => onPress("catch")} />
+        <TouchButton
+          label="Use"
+          primary={true}
+          onDown={() => onPress("interact")}
+        />
+      </div>
+    </div>
+  );
+}
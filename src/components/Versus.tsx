@@ -0,0 +1,375 @@
+import React, { useRef, useEffect, useState, useCallback } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
+import {
+  SimulationEvent,
+  SimulationState,
+  ThiefState,
+  withoutPresses,
+  TICK,
+} from "../game/simulation";
+import { StoreLayout } from "../game/layout";
+import { getKeyActions } from "../game/input";
+import { EncodedInputs, encodeInputs } from "../game/replay";
+import { DifficultyCurve } from "../game/difficulty";
+import {
+  AgentSample,
+  INTERPOLATION_TICKS,
+  PendingInputs,
+  ServerMessage,
+  VERSUS_PROTOCOL_VERSION,
+  VersusRole,
+  fromSnapshotState,
+  interpolateSamples,
+  parseServerMessage,
+  placeRemote,
+  predictState,
+  sampleRemote,
+} from "../game/versus";
+import { ControlsSettings } from "./ControlsSettings";
+import { SoundSettings } from "./SoundSettings";
+import { TouchControls, wantsTouchControls } from "./TouchControls";
+import { useGameState } from "./GameState";
+import { getGamepads, readPlayerInputs, MAX_FRAME_DELTA } from "./PlayerInput";
+import { Scene } from "./Scene";
+import { ScoreDisplay, GameHint, ShiftResults } from "./Hud";
+
+// Which side to play, and the versus server to play it through
+export interface VersusSettings {
+  role: VersusRole;
+  url: string;
+}
+
+// What the client knows of a versus game, written as the server's messages
+// arrive and read by the VersusLoop once per frame
+interface VersusConnection {
+  socket: WebSocket | null;
+  thiefId: number;
+  world: { layout: StoreLayout; difficulty: DifficultyCurve } | null;
+  snapshot: SimulationState | null; // Latest from the server
+  opponent: boolean;
+  pending: PendingInputs[];
+  nextSeq: number;
+  remote: AgentSample[]; // Recent spots of the other player's character
+  serverTick: number; // Of the latest snapshot
+  receivedAt: number; // performance.now() when it arrived
+  events: SimulationEvent[]; // From snapshots, not passed on yet
+}
+
+type VersusStatus = "connecting" | "waiting" | "playing" | "closed";
+
+// Unacknowledged ticks kept for prediction. Past this the server has
+// stopped listening, and replaying them all every frame would only hurt.
+const MAX_PENDING_TICKS = 120;
+
+// How much of the other player's movement is kept to interpolate along
+const REMOTE_HISTORY_TICKS = 60;
+
+function receiveSnapshot(
+  connection: VersusConnection,
+  message: Extract<ServerMessage, { type: "snapshot" }>,
+  role: VersusRole
+) {
+  const { world } = connection;
+  if (!world) return;
+
+  connection.snapshot = fromSnapshotState(
+    message.state,
+    world.layout,
+    world.difficulty
+  );
+  connection.pending = connection.pending.filter(
+    ({ seq }) => seq > message.ack
+  );
+  connection.opponent = message.opponent;
+
+  const sample = sampleRemote(
+    message.state,
+    message.tick,
+    role,
+    connection.thiefId
+  );
+  connection.remote = connection.remote.filter(
+    ({ tick }) =>
+      tick < message.tick && tick > message.tick - REMOTE_HISTORY_TICKS
+  );
+  if (sample) connection.remote.push(sample);
+
+  connection.serverTick = message.tick;
+  connection.receivedAt = performance.now();
+  connection.events.push(...message.events);
+}
+
+// Opens the socket to the versus server and keeps the connection up to date
+function useVersusConnection({ role, url }: VersusSettings) {
+  const connectionRef = useRef<VersusConnection>({
+    socket: null,
+    thiefId: 0,
+    world: null,
+    snapshot: null,
+    opponent: false,
+    pending: [],
+    nextSeq: 0,
+    remote: [],
+    serverTick: 0,
+    receivedAt: 0,
+    events: [],
+  });
+  const [status, setStatus] = useState<VersusStatus>("connecting");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const connection = connectionRef.current;
+    const socket = new WebSocket(url);
+    connection.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(
+        JSON.stringify({ type: "join", version: VERSUS_PROTOCOL_VERSION, role })
+      );
+    };
+    socket.onmessage = (e) => {
+      const message = parseServerMessage(String(e.data));
+      if (message?.type === "welcome") {
+        connection.thiefId = message.thiefId;
+        connection.world = {
+          layout: message.layout,
+          difficulty: message.difficulty,
+        };
+      } else if (message?.type === "snapshot") {
+        receiveSnapshot(connection, message, role);
+        setStatus(message.opponent ? "playing" : "waiting");
+      } else if (message?.type === "rejected") {
+        setError(message.reason);
+      }
+    };
+    socket.onclose = () => setStatus("closed");
+
+    return () => {
+      socket.onclose = null;
+      socket.close();
+      connection.socket = null;
+    };
+  }, [role, url]);
+
+  // Ask the server to retry the shift or start the next one
+  const sendShift = useCallback((action: "retry" | "next") => {
+    const socket = connectionRef.current.socket;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "shift", action }));
+    }
+  }, []);
+
+  return { connectionRef, status, error, sendShift };
+}
+
+// The versus counterpart of GameLoop. Ticks are sent to the server instead
+// of stepped for real; what's shown is the server's latest snapshot with
+// the local inputs it hasn't used yet played on top, and the other player's
+// character interpolated between snapshots.
+function VersusLoop({
+  role,
+  connectionRef,
+}: {
+  role: VersusRole;
+  connectionRef: React.MutableRefObject<VersusConnection>;
+}) {
+  const { simulationRef, setSimulation, controlsRef, emitEvents } =
+    useGameState();
+  const accumulatorRef = useRef(0);
+
+  useEffect(() => {
+    const controls = controlsRef.current;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      controls.keysPressed[e.key.toLowerCase()] = true;
+
+      const actions = getKeyActions(controls.bindings[0], e.key);
+      if (actions.length > 0) {
+        e.preventDefault();
+      }
+      if (!e.repeat) {
+        controls.queuedActions[0] = [
+          ...(controls.queuedActions[0] ?? []),
+          ...actions,
+        ];
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      controls.keysPressed[e.key.toLowerCase()] = false;
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [controlsRef]);
+
+  useFrame(({ camera }, delta) => {
+    const connection = connectionRef.current;
+    const { snapshot, socket, thiefId } = connection;
+    if (!snapshot) return;
+
+    accumulatorRef.current = Math.min(
+      accumulatorRef.current + delta,
+      MAX_FRAME_DELTA
+    );
+    if (accumulatorRef.current >= TICK) {
+      const controls = controlsRef.current;
+      let inputs = readPlayerInputs(
+        controls,
+        0,
+        controls.bindings[0],
+        getGamepads()[0] ?? null,
+        Math.atan2(camera.position.x, camera.position.z)
+      );
+      controls.queuedActions = [];
+
+      const seq = connection.nextSeq;
+      const ticks: EncodedInputs[] = [];
+      while (accumulatorRef.current >= TICK) {
+        accumulatorRef.current -= TICK;
+        const encoded = encodeInputs(inputs);
+        ticks.push(encoded);
+        connection.pending.push({ seq: connection.nextSeq++, inputs: encoded });
+        inputs = withoutPresses(inputs);
+      }
+      connection.pending = connection.pending.slice(-MAX_PENDING_TICKS);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: "inputs", seq, ticks }));
+      }
+    }
+
+    let next = predictState(
+      snapshot,
+      connection.pending,
+      role,
+      thiefId,
+      connection.opponent
+    );
+    // Where the server has got to by now, less the interpolation delay
+    const remoteTick =
+      connection.serverTick +
+      (performance.now() - connection.receivedAt) / 1000 / TICK -
+      INTERPOLATION_TICKS;
+    const remote = connection.opponent
+      ? interpolateSamples(connection.remote, remoteTick)
+      : null;
+    if (remote) {
+      next = placeRemote(next, remote, role, thiefId);
+    }
+
+    simulationRef.current = next;
+    setSimulation(next);
+    emitEvents(connection.events);
+    connection.events = [];
+  });
+
+  return null;
+}
+
+// What the versus player is waiting for, or what to do next
+function describeVersus(
+  role: VersusRole,
+  status: VersusStatus,
+  error: string | null,
+  thief: ThiefState | undefined
+): string {
+  if (error) return error;
+  if (status === "connecting") return "Connecting to the server…";
+  if (status === "closed") return "Lost the connection to the server";
+
+  const opponent = role === "employee" ? "a thief" : "the employee";
+  if (status === "waiting") {
+    return role === "employee"
+      ? `Waiting for ${opponent} to join, a bot steals meanwhile`
+      : `Waiting for ${opponent} to join`;
+  }
+  if (role === "employee") return "One of the thieves is another player";
+  if (thief?.mode === "waiting") return "Waiting outside for your turn";
+  if (thief?.mode === "fleeing") return "Caught! Run for the door";
+  return "Steal what you can and get out the door";
+}
+
+// Online versus, playing one side against someone else through the server
+export function VersusGame({ settings }: { settings: VersusSettings }) {
+  const { role } = settings;
+  const {
+    simulation,
+    bindings,
+    updateBindings,
+    audioSettings,
+    updateAudioSettings,
+    controlsRef,
+  } = useGameState();
+  const { connectionRef, status, error, sendShift } =
+    useVersusConnection(settings);
+  const [showControls, setShowControls] = useState(false);
+  const [showSound, setShowSound] = useState(false);
+  const [showTouchControls] = useState(wantsTouchControls);
+  const thiefId = connectionRef.current.thiefId;
+  const thief = simulation.thieves.find(({ id }) => id === thiefId);
+
+  return (
+    <>
+      <Canvas camera={{ position: [10, 10, 10], fov: 50 }} shadows>
+        <color attach="background" args={["#f0f0f0"]} />
+        <Scene
+          loop={<VersusLoop role={role} connectionRef={connectionRef} />}
+          controlledThiefId={role === "thief" ? thiefId : null}
+        />
+      </Canvas>
+      <div className="hud-panel">
+        <div className="versus-title">Versus: {role}</div>
+        <div className="versus-status">
+          {describeVersus(role, status, error, thief)}
+        </div>
+        <ScoreDisplay />
+        <button className="hud-button" onClick={() => setShowControls(true)}>
+          Controls
+        </button>{" "}
+        <button className="hud-button" onClick={() => setShowSound(true)}>
+          Sound
+        </button>
+      </div>
+      {showTouchControls && (
+        <TouchControls
+          onChange={(touch) => {
+            controlsRef.current.touch = touch;
+          }}
+          onPress={(action) => {
+            const queued = controlsRef.current.queuedActions;
+            queued[0] = [...(queued[0] ?? []), action];
+          }}
+        />
+      )}
+      <GameHint />
+      {simulation.outcome &&
+        (role === "employee" ? (
+          <ShiftResults
+            onRetry={() => sendShift("retry")}
+            onNextShift={() => sendShift("next")}
+          />
+        ) : (
+          <ShiftResults />
+        ))}
+      {showControls && (
+        <ControlsSettings
+          bindings={bindings.slice(0, 1)}
+          onChange={updateBindings}
+          onClose={() => setShowControls(false)}
+        />
+      )}
+      {showSound && (
+        <SoundSettings
+          settings={audioSettings}
+          onChange={updateAudioSettings}
+          onClose={() => setShowSound(false)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  SOUNDS,
+  getEventSounds,
+  getMasterVolume,
+  getSoundVolume,
+  loadAudioSettings,
+  saveAudioSettings,
+  validateAudioSettings,
+} from "./audio";
+import { DEFAULT_LAYOUT } from "./layout";
+import { SimulationState, createInitialState } from "./simulation";
+import { getDoorPoints } from "./store";
+import { THIEF_ARCHETYPES } from "./thieves";
+
+// One thief in the store, carrying `loot` items
+function withThief(loot: number): SimulationState {
+  const state = createInitialState(1, DEFAULT_LAYOUT, [
+    THIEF_ARCHETYPES.snatcher,
+  ]);
+  state.thieves = state.thieves.map((thief) => ({
+    ...thief,
+    mode: "searching",
+    position: [1, thief.position[1], 2],
+    holdingItems: state.items.slice(0, loot),
+  }));
+  return state;
+}
+
+describe("getEventSounds", () => {
+  it("keeps quiet when an undercover thief is spotted", () => {
+    const state = withThief(0);
+    expect(
+      getEventSounds(state, { type: "thiefSpotted", thiefId: 0 })
+    ).toEqual([]);
+  });
+
+  it("plays the sting for a thief known to be one", () => {
+    const carrying = withThief(1);
+    expect(
+      getEventSounds(carrying, { type: "thiefSpotted", thiefId: 0 })
+    ).toEqual([{ sound: "spotted", position: null }]);
+
+    const fleeing = withThief(0);
+    fleeing.thieves[0].mode = "fleeing";
+    expect(
+      getEventSounds(fleeing, { type: "thiefSpotted", thiefId: 0 })
+    ).toEqual([{ sound: "spotted", position: null }]);
+  });
+
+  it("plays thefts where the thief stands", () => {
+    const state = withThief(1);
+    expect(
+      getEventSounds(state, {
+        type: "itemStolen",
+        item: state.items[0],
+        thiefId: 0,
+        shelfId: null,
+      })
+    ).toEqual([{ sound: "steal", position: state.thieves[0].position }]);
+  });
+
+  it("plays the door a customer left by, after they're gone", () => {
+    const layout = {
+      ...DEFAULT_LAYOUT,
+      doors: [...DEFAULT_LAYOUT.doors, { side: "front" as const, index: 1 }],
+    };
+    const state = createInitialState(1, layout, []);
+    const { inside } = getDoorPoints(layout, layout.doors[1]);
+    expect(
+      getEventSounds(state, {
+        type: "customerLeft",
+        customerId: 7,
+        doorIndex: 1,
+      })
+    ).toEqual([{ sound: "door", position: inside }]);
+  });
+
+  it("picks the shift's ending by its outcome", () => {
+    const state = withThief(0);
+    expect(
+      getEventSounds(state, { type: "shiftEnded", outcome: "quotaMet" })
+    ).toEqual([{ sound: "shiftWon", position: null }]);
+    expect(
+      getEventSounds(state, { type: "shiftEnded", outcome: "outOfTime" })
+    ).toEqual([{ sound: "shiftLost", position: null }]);
+  });
+});
+
+describe("validateAudioSettings", () => {
+  it("accepts the defaults", () => {
+    expect(validateAudioSettings(DEFAULT_AUDIO_SETTINGS)).toEqual([]);
+  });
+
+  it("rejects anything that isn't an object", () => {
+    expect(validateAudioSettings(null)).toEqual([
+      "audio settings must be an object",
+    ]);
+  });
+
+  it("needs volumes from 0 to 1 and a muted flag", () => {
+    expect(
+      validateAudioSettings({
+        ...DEFAULT_AUDIO_SETTINGS,
+        version: 2,
+        master: 1.5,
+        music: "loud",
+        sfx: NaN,
+        muted: 0,
+      })
+    ).toEqual([
+      "version must be 1",
+      "master must be a number from 0 to 1",
+      "music must be a number from 0 to 1",
+      "sfx must be a number from 0 to 1",
+      "muted must be true or false",
+    ]);
+  });
+});
+
+describe("loadAudioSettings", () => {
+  afterEach(() => window.localStorage.clear());
+
+  it("loads what was saved", () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, music: 0, muted: true };
+    saveAudioSettings(settings);
+    expect(loadAudioSettings()).toEqual(settings);
+  });
+
+  it("falls back to the defaults for unusable saved settings", () => {
+    saveAudioSettings({ ...DEFAULT_AUDIO_SETTINGS, master: -1 });
+    expect(loadAudioSettings()).toBe(DEFAULT_AUDIO_SETTINGS);
+  });
+});
+
+describe("volumes", () => {
+  it("scale each sound by its channel, and everything by the master", () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, music: 0.5, sfx: 0.25 };
+    expect(getSoundVolume(settings, "music")).toBe(0.5 * SOUNDS.music.volume);
+    expect(getSoundVolume(settings, "steal")).toBe(0.25 * SOUNDS.steal.volume);
+    expect(getMasterVolume(settings)).toBe(settings.master);
+    expect(getMasterVolume({ ...settings, muted: true })).toBe(0);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  SimulationEvent,
+  SimulationState,
+  isThiefRevealed,
+} from "./simulation";
+import { Vec3, getDoorPoints } from "./store";
+
+// Sounds and music: the catalogue of sound files, which game events play
+// which of them and where, and the volume settings, which are kept in
+// localStorage. Playing them is up to the AudioSystem component.
+
+export type SoundName =
+  | "music"
+  | "shelve"
+  | "wrongShelf"
+  | "pickup"
+  | "drop"
+  | "throw"
+  | "land"
+  | "scan"
+  | "paid"
+  | "angry"
+  | "accused"
+  | "door"
+  | "footstep"
+  | "steal"
+  | "spotted"
+  | "stunned"
+  | "caught"
+  | "shiftWon"
+  | "shiftLost";
+
+export interface SoundDefinition {
+  file: string; // In public/assets/sounds
+  volume: number; // 0 to 1, before the player's settings
+  duck?: boolean; // Lowers the music while it plays, for cues that matter
+}
+
+export const SOUND_DIRECTORY = "/assets/sounds/";
+
+// Sounds whose file is missing are skipped, so the game plays fine with
+// any of them left out
+export const SOUNDS: { [name in SoundName]: SoundDefinition } = {
+  music: { file: "music.mp3", volume: 0.4 },
+  shelve: { file: "success.mp3", volume: 0.5 },
+  wrongShelf: { file: "wrong-shelf.mp3", volume: 0.5 },
+  pickup: { file: "pickup.mp3", volume: 0.4 },
+  drop: { file: "drop.mp3", volume: 0.4 },
+  throw: { file: "throw.mp3", volume: 0.5 },
+  land: { file: "land.mp3", volume: 0.5 },
+  scan: { file: "scan.mp3", volume: 0.4 },
+  paid: { file: "register.mp3", volume: 0.5 },
+  angry: { file: "angry.mp3", volume: 0.6 },
+  accused: { file: "accused.mp3", volume: 0.6 },
+  door: { file: "door.mp3", volume: 0.6 },
+  footstep: { file: "footstep.mp3", volume: 0.3 },
+  steal: { file: "steal.mp3", volume: 0.7, duck: true },
+  spotted: { file: "spotted.mp3", volume: 0.7, duck: true },
+  stunned: { file: "stunned.mp3", volume: 0.6 },
+  caught: { file: "caught.mp3", volume: 0.8, duck: true },
+  shiftWon: { file: "shift-won.mp3", volume: 0.8, duck: true },
+  shiftLost: { file: "shift-lost.mp3", volume: 0.8, duck: true },
+};
+
+// Music volume, as a fraction of its setting, while a ducking cue plays
+export const DUCKED_MUSIC = 0.3;
+
+// Distance a thief or customer walks between footsteps
+export const FOOTSTEP_STRIDE = 0.7;
+
+// A sound to play for an event, at a spot in the store for positional ones
+// or null for ones heard the same everywhere
+export interface SoundCue {
+  sound: SoundName;
+  position: Vec3 | null;
+}
+
+export const AUDIO_SETTINGS_VERSION = 1;
+
+// Volumes from 0 to 1. Music and effects are scaled by the master volume.
+export interface AudioSettings {
+  version: number;
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  version: AUDIO_SETTINGS_VERSION,
+  master: 0.8,
+  music: 0.5,
+  sfx: 0.8,
+  muted: false,
+};
+
+const STORAGE_KEY = "mini-market-thief.audio";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Just inside the door a thief or customer uses
+function getDoorPosition(state: SimulationState, doorIndex = 0): Vec3 {
+  const { layout } = state;
+  return getDoorPoints(layout, layout.doors[doorIndex] ?? layout.doors[0])
+    .inside;
+}
+
+// The sounds an event makes, if any. `state` is the one the event came
+// from, for finding out where it happened.
+export function getEventSounds(
+  state: SimulationState,
+  event: SimulationEvent
+): SoundCue[] {
+  const thief =
+    "thiefId" in event
+      ? state.thieves.find(({ id }) => id === event.thiefId)
+      : undefined;
+  const customer =
+    "customerId" in event
+      ? state.customers.find(({ id }) => id === event.customerId)
+      : undefined;
+
+  switch (event.type) {
+    case "itemShelved":
+      return [{ sound: "shelve", position: null }];
+    case "wrongShelf":
+    case "shelfFull":
+    case "cartFull":
+      return [{ sound: "wrongShelf", position: null }];
+    case "itemPickedUp":
+      return [{ sound: "pickup", position: null }];
+    case "itemDropped":
+      return [{ sound: "drop", position: null }];
+    case "itemThrown":
+      return [{ sound: "throw", position: null }];
+    case "itemLanded":
+      return [{ sound: "land", position: event.item.position }];
+    case "itemScanned":
+      return [{ sound: "scan", position: null }];
+    case "customerPaid":
+      return [{ sound: "paid", position: null }];
+    case "customerAngry":
+      return [{ sound: "angry", position: null }];
+    case "customerAccused":
+      return [{ sound: "accused", position: null }];
+    case "customerEntered":
+      return [
+        {
+          sound: "door",
+          position: getDoorPosition(state, customer?.doorIndex),
+        },
+      ];
+    case "customerLeft":
+      return [
+        { sound: "door", position: getDoorPosition(state, event.doorIndex) },
+      ];
+    case "thiefEntered":
+    case "thiefEscaped":
+      return [
+        { sound: "door", position: getDoorPosition(state, thief?.doorIndex) },
+      ];
+    case "itemStolen":
+      return [{ sound: "steal", position: thief?.position ?? null }];
+    case "thiefSpotted":
+      // Only for a thief already known to be one, or the sting would point
+      // out which shopper is up to something
+      return thief && isThiefRevealed(thief)
+        ? [{ sound: "spotted", position: null }]
+        : [];
+    case "thiefStunned":
+      return [{ sound: "stunned", position: thief?.position ?? null }];
+    case "thiefCaught":
+      return [{ sound: "caught", position: thief?.position ?? null }];
+    case "shiftEnded":
+      return [
+        {
+          sound: event.outcome === "quotaMet" ? "shiftWon" : "shiftLost",
+          position: null,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+// Everything goes through the master volume, which is 0 when muted
+export function getMasterVolume(settings: AudioSettings): number {
+  return settings.muted ? 0 : settings.master;
+}
+
+// The gain a sound plays at before the master volume
+export function getSoundVolume(
+  settings: AudioSettings,
+  sound: SoundName
+): number {
+  const channel = sound === "music" ? settings.music : settings.sfx;
+  return channel * SOUNDS[sound].volume;
+}
+
+// Check a parsed JSON value against the settings format. Returns a list of
+// human readable problems, empty when the settings are usable.
+export function validateAudioSettings(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["audio settings must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.version !== AUDIO_SETTINGS_VERSION) {
+    errors.push(`version must be ${AUDIO_SETTINGS_VERSION}`);
+  }
+  for (const key of ["master", "music", "sfx"]) {
+    const value = data[key];
+    if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+      errors.push(`${key} must be a number from 0 to 1`);
+    }
+  }
+  if (typeof data.muted !== "boolean") {
+    errors.push("muted must be true or false");
+  }
+  return errors;
+}
+
+// The saved settings, or the defaults if there are none or they're
+// unusable
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const data: unknown = JSON.parse(saved);
+      if (validateAudioSettings(data).length === 0) {
+        return data as AudioSettings;
+      }
+    }
+  } catch (error) {
+    // Storage blocked or corrupt: fall back to the defaults
+  }
+  return DEFAULT_AUDIO_SETTINGS;
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Storage blocked or full: the settings last until the page is closed
+  }
+}
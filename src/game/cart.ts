@@ -0,0 +1,14 @@
+// The shopping cart. The player can push it around to gather several loose
+// items at once and unload them shelf by shelf, at the cost of speed and
+// handling. Speeds are in units per second, turning in radians per second.
+
+export const CART_CONSTANTS = {
+  model: "shopping-cart", // File name in public/assets/Models, no extension
+  capacity: 6,
+  radius: 0.3, // Collision footprint against shelves, wider than a person
+  offset: 0.55, // Distance from the player to the middle of the cart
+  grabRadius: 0.9, // How close the player has to be to take hold of it
+  fullLoadSlowdown: 0.5, // Fraction of walking speed lost with a full cart
+  turnSpeed: 6, // Empty cart
+  fullLoadTurnSlowdown: 0.7, // Fraction of turn speed lost with a full cart
+};
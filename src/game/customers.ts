@@ -0,0 +1,36 @@
+// Honest shoppers. They come in through the same doors as the thieves, take
+// a few products off the shelves and queue at the cash register, where the
+// player has to scan their shopping before they can pay and leave.
+// Speeds are in units per second.
+
+// Every character model, the thieves' included, so a thief's looks never
+// set it apart from the shoppers around it
+export const CUSTOMER_MODELS = [
+  "character-female-a",
+  "character-female-b",
+  "character-female-c",
+  "character-female-d",
+  "character-female-e",
+  "character-female-f",
+  "character-male-a",
+  "character-male-b",
+  "character-male-c",
+  "character-male-d",
+  "character-male-e",
+  "character-male-f",
+];
+
+export const CUSTOMER_CONSTANTS = {
+  spawnInterval: 12, // Seconds between new customers
+  maxCustomers: 3, // In the store at once
+  firstSpawnDelay: 4,
+  speed: 1.3, // Close to the thieves, so walking pace gives nothing away
+  minShoppingList: 1,
+  maxShoppingList: 3,
+  browseTime: 2, // Seconds spent at each shelf
+  queueSpacing: 0.6,
+  patience: 30, // Seconds in the queue before giving up and leaving angry
+  angryPenalty: 5, // Score lost for every customer who leaves angry
+  checkoutRadius: 1, // How close to the register the player has to be to scan
+  accusationPenalty: 15, // Score lost for catching an innocent customer
+};
@@ -0,0 +1,163 @@
+import {
+  DIFFICULTY_CURVES,
+  DifficultyCurve,
+  DifficultyProgress,
+  getDifficultyLevel,
+  getDifficultyProgress,
+  parseDifficulty,
+  validateDifficulty,
+} from "./difficulty";
+
+const RELAXED = DIFFICULTY_CURVES.relaxed;
+
+// A copy of the relaxed curve with some of it changed
+function withChanges(changes: Record<string, unknown>): unknown {
+  return { ...RELAXED, ...changes };
+}
+
+const START: DifficultyProgress = {
+  time: 0,
+  shiftNumber: 1,
+  itemsShelved: 0,
+  thievesCaught: 0,
+  stolenItems: 0,
+};
+
+describe("validateDifficulty", () => {
+  it("accepts the curves that ship with the game", () => {
+    for (const curve of Object.values(DIFFICULTY_CURVES)) {
+      expect(validateDifficulty(curve)).toEqual([]);
+    }
+  });
+
+  it("rejects anything that isn't an object", () => {
+    expect(validateDifficulty(null)).toEqual(["difficulty must be an object"]);
+    expect(validateDifficulty([])).toEqual(["difficulty must be an object"]);
+  });
+
+  it("needs a curve starting at 0 with keyframes in order", () => {
+    const [first, second] = RELAXED.curve;
+    expect(validateDifficulty(withChanges({ curve: [] }))).toContain(
+      "curve must be a non-empty array"
+    );
+    expect(validateDifficulty(withChanges({ curve: [second] }))).toContain(
+      "curve[0].time must be 0"
+    );
+    expect(
+      validateDifficulty(withChanges({ curve: [first, second, second] }))
+    ).toEqual(["curve[2].time must be a number after the previous one"]);
+  });
+
+  it("needs positive numbers for every level", () => {
+    const [first] = RELAXED.curve;
+    expect(
+      validateDifficulty(
+        withChanges({
+          curve: [{ ...first, thiefSpeed: 0, maxActiveThieves: "2" }, 3],
+        })
+      )
+    ).toEqual([
+      "curve[0].thiefSpeed must be a positive number",
+      "curve[0].maxActiveThieves must be a positive number",
+      "curve[1] must be an object",
+    ]);
+  });
+
+  it("needs a number for every performance offset", () => {
+    expect(
+      validateDifficulty(
+        withChanges({
+          performance: { ...RELAXED.performance, secondsPerShift: null },
+        })
+      )
+    ).toEqual(["performance.secondsPerShift must be a number"]);
+    expect(validateDifficulty(withChanges({ performance: 5 }))).toContain(
+      "performance must be an object"
+    );
+  });
+});
+
+describe("parseDifficulty", () => {
+  it("throws with every problem found", () => {
+    expect(() =>
+      parseDifficulty(withChanges({ version: 0, name: "" }))
+    ).toThrow(
+      "Invalid difficulty curve:\n- version must be 1\n- name must be a non-empty string"
+    );
+  });
+});
+
+describe("getDifficultyLevel", () => {
+  const curve: DifficultyCurve = {
+    ...RELAXED,
+    curve: [
+      {
+        time: 0,
+        itemSpawnInterval: 30,
+        maxLooseItems: 6,
+        thiefWaitTime: 20,
+        thiefSpeed: 1,
+        maxActiveThieves: 1,
+      },
+      {
+        time: 100,
+        itemSpawnInterval: 10,
+        maxLooseItems: 10,
+        thiefWaitTime: 10,
+        thiefSpeed: 1.5,
+        maxActiveThieves: 3,
+      },
+    ],
+  };
+
+  it("interpolates between keyframes", () => {
+    expect(getDifficultyLevel(curve, 25)).toEqual({
+      itemSpawnInterval: 25,
+      maxLooseItems: 7,
+      thiefWaitTime: 17.5,
+      thiefSpeed: 1.125,
+      maxActiveThieves: 1.5,
+    });
+  });
+
+  it("starts at the first keyframe and holds the last past the end", () => {
+    const { time, ...first } = curve.curve[0];
+    expect(getDifficultyLevel(curve, 0)).toEqual(first);
+    expect(getDifficultyLevel(curve, 100)).toBe(curve.curve[1]);
+    expect(getDifficultyLevel(curve, 1000)).toBe(curve.curve[1]);
+  });
+});
+
+describe("getDifficultyProgress", () => {
+  const { performance } = RELAXED;
+
+  it("follows the clock with nothing else going on", () => {
+    expect(getDifficultyProgress(RELAXED, { ...START, time: 42 })).toBe(42);
+  });
+
+  it("moves along the curve for later shifts and good play", () => {
+    expect(
+      getDifficultyProgress(RELAXED, {
+        ...START,
+        time: 10,
+        shiftNumber: 3,
+        itemsShelved: 4,
+        thievesCaught: 1,
+      })
+    ).toBe(
+      10 +
+        2 * performance.secondsPerShift +
+        4 * performance.secondsPerItemShelved +
+        performance.secondsPerThiefCaught
+    );
+  });
+
+  it("eases off after thefts, but never before the start", () => {
+    expect(
+      getDifficultyProgress(RELAXED, { ...START, time: 60, stolenItems: 1 })
+    ).toBe(60 + performance.secondsPerItemStolen);
+    expect(
+      getDifficultyProgress(RELAXED, { ...START, time: 5, stolenItems: 10 })
+    ).toBe(0);
+  });
+});
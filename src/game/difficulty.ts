@@ -0,0 +1,176 @@
+import standardDifficulty from "./difficulty/standard.json";
+import relaxedDifficulty from "./difficulty/relaxed.json";
+
+// JSON difficulty curves for the director. A curve is a list of keyframes
+// over "progress", measured in seconds: elapsed shift time shifted forwards
+// or back by how well the player is doing. Values between keyframes are
+// interpolated, and the last keyframe holds after the end of the curve.
+
+export const DIFFICULTY_VERSION = 1;
+
+export interface DifficultyLevel {
+  itemSpawnInterval: number; // Seconds between extra loose items
+  maxLooseItems: number; // No extra spawns while this many are lying around
+  thiefWaitTime: number; // Seconds a thief waits outside between visits
+  thiefSpeed: number; // Multiplies the archetype's walking speed
+  maxActiveThieves: number; // Thieves allowed in the store at once
+}
+
+export interface DifficultyKeyframe extends DifficultyLevel {
+  time: number; // Progress in seconds
+}
+
+// Seconds of progress added per event; negative values ease off
+export interface DifficultyPerformance {
+  secondsPerShift: number; // For every shift after the first
+  secondsPerItemShelved: number;
+  secondsPerThiefCaught: number;
+  secondsPerItemStolen: number;
+}
+
+export interface DifficultyCurve {
+  version: number;
+  name: string;
+  curve: DifficultyKeyframe[];
+  performance: DifficultyPerformance;
+}
+
+// What the director looks at besides the clock
+export interface DifficultyProgress {
+  time: number;
+  shiftNumber: number;
+  itemsShelved: number;
+  thievesCaught: number;
+  stolenItems: number;
+}
+
+const LEVEL_KEYS: (keyof DifficultyLevel)[] = [
+  "itemSpawnInterval",
+  "maxLooseItems",
+  "thiefWaitTime",
+  "thiefSpeed",
+  "maxActiveThieves",
+];
+
+const PERFORMANCE_KEYS: (keyof DifficultyPerformance)[] = [
+  "secondsPerShift",
+  "secondsPerItemShelved",
+  "secondsPerThiefCaught",
+  "secondsPerItemStolen",
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Check a parsed JSON value against the curve format. Returns a list of
+// human readable problems, empty when the curve is usable.
+export function validateDifficulty(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return ["difficulty must be an object"];
+  }
+
+  if (data.version !== DIFFICULTY_VERSION) {
+    errors.push(`version must be ${DIFFICULTY_VERSION}`);
+  }
+  if (typeof data.name !== "string" || data.name === "") {
+    errors.push("name must be a non-empty string");
+  }
+
+  if (!Array.isArray(data.curve) || data.curve.length === 0) {
+    errors.push("curve must be a non-empty array");
+  } else {
+    let previousTime = -Infinity;
+    data.curve.forEach((keyframe, i) => {
+      const path = `curve[${i}]`;
+      if (!isRecord(keyframe)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (!isNumber(keyframe.time) || keyframe.time <= previousTime) {
+        errors.push(`${path}.time must be a number after the previous one`);
+      } else {
+        previousTime = keyframe.time;
+      }
+      for (const key of LEVEL_KEYS) {
+        if (!isNumber(keyframe[key]) || (keyframe[key] as number) <= 0) {
+          errors.push(`${path}.${key} must be a positive number`);
+        }
+      }
+    });
+    if (isRecord(data.curve[0]) && data.curve[0].time !== 0) {
+      errors.push("curve[0].time must be 0");
+    }
+  }
+
+  if (!isRecord(data.performance)) {
+    errors.push("performance must be an object");
+  } else {
+    for (const key of PERFORMANCE_KEYS) {
+      if (!isNumber(data.performance[key])) {
+        errors.push(`performance.${key} must be a number`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Validate and return a curve, throwing with every problem found
+export function parseDifficulty(data: unknown): DifficultyCurve {
+  const errors = validateDifficulty(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid difficulty curve:\n- ${errors.join("\n- ")}`);
+  }
+  return data as DifficultyCurve;
+}
+
+// How far along the curve the game is, in seconds
+export function getDifficultyProgress(
+  difficulty: DifficultyCurve,
+  progress: DifficultyProgress
+): number {
+  const performance = difficulty.performance;
+  return Math.max(
+    0,
+    progress.time +
+      (progress.shiftNumber - 1) * performance.secondsPerShift +
+      progress.itemsShelved * performance.secondsPerItemShelved +
+      progress.thievesCaught * performance.secondsPerThiefCaught +
+      progress.stolenItems * performance.secondsPerItemStolen
+  );
+}
+
+// Sample the curve at a point of progress
+export function getDifficultyLevel(
+  difficulty: DifficultyCurve,
+  progress: number
+): DifficultyLevel {
+  const curve = difficulty.curve;
+  const nextIndex = curve.findIndex((keyframe) => keyframe.time > progress);
+  if (nextIndex === -1) return curve[curve.length - 1];
+  if (nextIndex === 0) return curve[0];
+
+  const from = curve[nextIndex - 1];
+  const to = curve[nextIndex];
+  const t = (progress - from.time) / (to.time - from.time);
+  const level = {} as DifficultyLevel;
+  for (const key of LEVEL_KEYS) {
+    level[key] = from[key] + (to[key] - from[key]) * t;
+  }
+  return level;
+}
+
+// Curves that ship with the game, keyed by the `?difficulty=` query value
+export const DIFFICULTY_CURVES: { [key: string]: DifficultyCurve } = {
+  standard: parseDifficulty(standardDifficulty),
+  relaxed: parseDifficulty(relaxedDifficulty),
+};
+
+export const DEFAULT_DIFFICULTY = DIFFICULTY_CURVES.standard;
@@ -0,0 +1,89 @@
+import {
+  getPlacementError,
+  placeFixture,
+  removePlacement,
+  rotatePlacement,
+  snapToTile,
+} from "./editor";
+import { StoreLayout } from "./layout";
+
+// A 6x6 store with a door in the middle of the front wall, just inside of
+// which is (-0.5, 2.5), and one shelf
+const LAYOUT: StoreLayout = {
+  version: 1,
+  name: "Test shop",
+  floor: { width: 6, depth: 6 },
+  walls: [{ side: "front", from: 0, to: 6 }],
+  doors: [{ side: "front", index: 2 }],
+  windows: [],
+  shelves: [
+    { id: "shelf-1", kind: "shelf-boxes", x: 1.5, z: -1.5, rotation: 0 },
+  ],
+  fixtures: [],
+  spawnZones: [{ x: 0, z: 0, width: 4, depth: 4 }],
+};
+
+describe("getPlacementError", () => {
+  const column = { kind: "column" as const, rotation: 0 };
+
+  it("allows a free tile", () => {
+    expect(getPlacementError(LAYOUT, { ...column, x: -1.5, z: -1.5 })).toBe(
+      null
+    );
+  });
+
+  it("keeps placements on the floor", () => {
+    expect(getPlacementError(LAYOUT, { ...column, x: 3, z: 0 })).toBe(
+      "Outside the floor"
+    );
+  });
+
+  it("names what a placement overlaps", () => {
+    expect(getPlacementError(LAYOUT, { ...column, x: 1.5, z: -1.5 })).toBe(
+      "Overlaps shelf-1"
+    );
+  });
+
+  it("ignores the placement being moved", () => {
+    const [shelf] = LAYOUT.shelves;
+    expect(getPlacementError(LAYOUT, shelf, shelf.id)).toBe(null);
+  });
+
+  it("keeps doorways clear", () => {
+    expect(getPlacementError(LAYOUT, { ...column, x: -0.5, z: 2.5 })).toBe(
+      "Blocks a door"
+    );
+  });
+});
+
+describe("editing", () => {
+  it("snaps to the tile a point falls on, inside the floor", () => {
+    expect(snapToTile(LAYOUT, 0.3, -0.8)).toEqual({ x: 0.5, z: -0.5 });
+    expect(snapToTile(LAYOUT, 10, -10)).toEqual({ x: 2.5, z: -2.5 });
+  });
+
+  it("places fixtures and shelves with fresh ids", () => {
+    const withColumn = placeFixture(LAYOUT, "column", -1.4, -1.6, 0);
+    expect(withColumn.fixtures).toEqual([
+      { id: "column-1", kind: "column", x: -1.5, z: -1.5, rotation: 0 },
+    ]);
+
+    const withShelf = placeFixture(withColumn, "shelf-boxes", 1.5, 0.5, 90);
+    expect(withShelf.shelves.map(({ id }) => id)).toEqual([
+      "shelf-1",
+      "shelf-boxes-1",
+    ]);
+    expect(LAYOUT.fixtures).toEqual([]);
+  });
+
+  it("leaves the layout as it was when a placement doesn't fit", () => {
+    expect(placeFixture(LAYOUT, "column", 1.5, -1.5, 0)).toBe(LAYOUT);
+  });
+
+  it("rotates and removes placements", () => {
+    const rotated = rotatePlacement(LAYOUT, "shelf-1");
+    expect(rotated.shelves[0].rotation).toBe(90);
+    expect(rotatePlacement(rotated, "missing")).toBe(rotated);
+    expect(removePlacement(rotated, "shelf-1").shelves).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  FixtureDefinition,
+  FixtureKind,
+  SHELF_KINDS,
+  ShelfDefinition,
+  ShelfKind,
+  StoreLayout,
+} from "./layout";
+import {
+  CHARACTER_SIZE,
+  Rect,
+  TILE_SPACING,
+  getDoorPoints,
+  getFootprintRect,
+  getStoreOffset,
+} from "./store";
+
+// Pure layout editing operations used by the in-browser editor. Every
+// function returns a new layout and leaves the one passed in untouched.
+
+export type Placement = ShelfDefinition | FixtureDefinition;
+
+export function isShelfKind(kind: ShelfKind | FixtureKind): kind is ShelfKind {
+  return SHELF_KINDS.includes(kind as ShelfKind);
+}
+
+export function getPlacements(layout: StoreLayout): Placement[] {
+  return [...layout.shelves, ...layout.fixtures];
+}
+
+// Snap a floor point to the centre of the tile it falls on
+export function snapToTile(
+  layout: StoreLayout,
+  x: number,
+  z: number
+): { x: number; z: number } {
+  const offset = getStoreOffset(layout);
+  const column = Math.round((x + offset.x) / TILE_SPACING);
+  const row = Math.round((z + offset.z) / TILE_SPACING);
+
+  return {
+    x:
+      Math.max(0, Math.min(layout.floor.width - 1, column)) * TILE_SPACING -
+      offset.x,
+    z:
+      Math.max(0, Math.min(layout.floor.depth - 1, row)) * TILE_SPACING -
+      offset.z,
+  };
+}
+
+function rectsOverlap(a: Rect, b: Rect): boolean {
+  return (
+    a.minX < b.maxX && b.minX < a.maxX && a.minZ < b.maxZ && b.minZ < a.maxZ
+  );
+}
+
+function rectContains(rect: Rect, x: number, z: number): boolean {
+  return x >= rect.minX && x <= rect.maxX && z >= rect.minZ && z <= rect.maxZ;
+}
+
+// The placement whose footprint covers a floor point, if any
+export function findPlacementAt(
+  layout: StoreLayout,
+  x: number,
+  z: number
+): Placement | undefined {
+  return getPlacements(layout).find((placement) =>
+    rectContains(getFootprintRect(placement), x, z)
+  );
+}
+
+// Explain why a placement can't go where it is, or return null if it can.
+// `ignoreId` skips the placement's own entry when moving or rotating it.
+export function getPlacementError(
+  layout: StoreLayout,
+  placement: {
+    kind: ShelfKind | FixtureKind;
+    x: number;
+    z: number;
+    rotation: number;
+  },
+  ignoreId?: string
+): string | null {
+  const rect = getFootprintRect(placement);
+  const halfWidth = (layout.floor.width * TILE_SPACING) / 2;
+  const halfDepth = (layout.floor.depth * TILE_SPACING) / 2;
+
+  if (
+    rect.minX < -halfWidth ||
+    rect.maxX > halfWidth ||
+    rect.minZ < -halfDepth ||
+    rect.maxZ > halfDepth
+  ) {
+    return "Outside the floor";
+  }
+
+  const blocker = getPlacements(layout).find(
+    (other) =>
+      other.id !== ignoreId && rectsOverlap(rect, getFootprintRect(other))
+  );
+  if (blocker) {
+    return `Overlaps ${blocker.id}`;
+  }
+
+  // Keep a character-sized gap in front of every door
+  for (const door of layout.doors) {
+    const { inside } = getDoorPoints(layout, door);
+    const doorway: Rect = {
+      minX: inside[0] - TILE_SPACING / 2 - CHARACTER_SIZE.radius,
+      maxX: inside[0] + TILE_SPACING / 2 + CHARACTER_SIZE.radius,
+      minZ: inside[2] - TILE_SPACING / 2 - CHARACTER_SIZE.radius,
+      maxZ: inside[2] + TILE_SPACING / 2 + CHARACTER_SIZE.radius,
+    };
+    if (rectsOverlap(rect, doorway)) {
+      return "Blocks a door";
+    }
+  }
+
+  return null;
+}
+
+function nextPlacementId(layout: StoreLayout, kind: string): string {
+  const ids = new Set(getPlacements(layout).map((placement) => placement.id));
+  let n = 1;
+  while (ids.has(`${kind}-${n}`)) n++;
+  return `${kind}-${n}`;
+}
+
+// Add a fixture at a tile, or return the layout unchanged if it doesn't fit
+export function placeFixture(
+  layout: StoreLayout,
+  kind: ShelfKind | FixtureKind,
+  x: number,
+  z: number,
+  rotation: number
+): StoreLayout {
+  const snapped = snapToTile(layout, x, z);
+  const placement = { kind, ...snapped, rotation };
+  if (getPlacementError(layout, placement)) {
+    return layout;
+  }
+
+  const id = nextPlacementId(layout, kind);
+  if (isShelfKind(kind)) {
+    return {
+      ...layout,
+      shelves: [...layout.shelves, { id, kind, ...snapped, rotation }],
+    };
+  }
+  return {
+    ...layout,
+    fixtures: [...layout.fixtures, { id, kind, ...snapped, rotation }],
+  };
+}
+
+// Turn a placement a quarter turn clockwise if it still fits afterwards
+export function rotatePlacement(layout: StoreLayout, id: string): StoreLayout {
+  const placement = getPlacements(layout).find((other) => other.id === id);
+  if (!placement) return layout;
+
+  const rotation = (placement.rotation + 90) % 360;
+  if (getPlacementError(layout, { ...placement, rotation }, id)) {
+    return layout;
+  }
+
+  return {
+    ...layout,
+    shelves: layout.shelves.map((shelf) =>
+      shelf.id === id ? { ...shelf, rotation } : shelf
+    ),
+    fixtures: layout.fixtures.map((fixture) =>
+      fixture.id === id ? { ...fixture, rotation } : fixture
+    ),
+  };
+}
+
+export function removePlacement(layout: StoreLayout, id: string): StoreLayout {
+  return {
+    ...layout,
+    shelves: layout.shelves.filter((shelf) => shelf.id !== id),
+    fixtures: layout.fixtures.filter((fixture) => fixture.id !== id),
+  };
+}
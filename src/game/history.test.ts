@@ -0,0 +1,114 @@
+import {
+  HISTORY_VERSION,
+  MAX_RUNS,
+  NO_RUN_FILTER,
+  RunRecord,
+  filterRuns,
+  getPersonalBest,
+  markImported,
+  mergeRuns,
+  sortRuns,
+  validateHistory,
+} from "./history";
+
+function run(id: string, changes: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id,
+    date: 1000,
+    score: 100,
+    itemsShelved: 10,
+    thievesCaught: 2,
+    itemsStolen: 1,
+    duration: 180,
+    seed: 1,
+    shiftNumber: 1,
+    store: "Mini Market",
+    difficulty: "Standard",
+    outcome: "quotaMet",
+    ...changes,
+  };
+}
+
+describe("mergeRuns", () => {
+  it("adds new runs, newest first", () => {
+    const merged = mergeRuns(
+      [run("a", { date: 1 }), run("c", { date: 3 })],
+      [run("b", { date: 2 })]
+    );
+    expect(merged.map(({ id }) => id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("skips runs it already has", () => {
+    const mine = run("a", { score: 50 });
+    const merged = mergeRuns([mine], [run("a", { score: 999 }), run("b")]);
+    expect(merged).toHaveLength(2);
+    expect(merged).toContainEqual(mine);
+  });
+
+  it("keeps only the newest MAX_RUNS", () => {
+    const incoming = Array.from({ length: MAX_RUNS + 5 }, (_, i) =>
+      run(`run-${i}`, { date: i })
+    );
+    const merged = mergeRuns([], incoming);
+    expect(merged).toHaveLength(MAX_RUNS);
+    expect(merged[merged.length - 1].date).toBe(5);
+  });
+});
+
+describe("filtering and sorting", () => {
+  const runs = [
+    run("mine", { score: 300, date: 1 }),
+    run("lost", { score: 50, date: 2, outcome: "tooManyStolen" }),
+    run("theirs", { score: 900, date: 3, importedFrom: "friend.json" }),
+  ];
+
+  it("filters by outcome and where runs came from", () => {
+    const ids = (filtered: RunRecord[]) => filtered.map(({ id }) => id);
+    expect(
+      ids(filterRuns(runs, { ...NO_RUN_FILTER, outcome: "quotaMet" }))
+    ).toEqual(["mine", "theirs"]);
+    expect(ids(filterRuns(runs, { ...NO_RUN_FILTER, source: "mine" }))).toEqual(
+      ["mine", "lost"]
+    );
+  });
+
+  it("sorts highest first", () => {
+    expect(sortRuns(runs, "score").map(({ id }) => id)).toEqual([
+      "theirs",
+      "mine",
+      "lost",
+    ]);
+  });
+
+  it("only counts the player's own runs as their best", () => {
+    expect(getPersonalBest(runs)).toBe(300);
+    expect(getPersonalBest([])).toBeNull();
+  });
+
+  it("keeps where imported runs first came from", () => {
+    expect(
+      markImported(runs, "other.json").map(({ importedFrom }) => importedFrom)
+    ).toEqual(["other.json", "other.json", "friend.json"]);
+  });
+});
+
+describe("validateHistory", () => {
+  it("accepts an exported history", () => {
+    expect(
+      validateHistory({ version: HISTORY_VERSION, runs: [run("a")] })
+    ).toEqual([]);
+  });
+
+  it("lists what's wrong with a run", () => {
+    const { score, ...noScore } = run("a");
+    expect(
+      validateHistory({
+        version: HISTORY_VERSION,
+        runs: [noScore, { ...run("b"), outcome: "bored" }],
+      })
+    ).toEqual([
+      "runs[0].score must be a number",
+      "runs[1].outcome must be one of quotaMet, tooManyStolen, outOfTime",
+    ]);
+  });
+});
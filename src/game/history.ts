@@ -0,0 +1,206 @@
+import { ShiftOutcome, SimulationState } from "./simulation";
+
+// Finished shifts, kept in localStorage for the leaderboard and the personal
+// best. The history can be exported as a JSON file and imported by someone
+// else, so each record carries a random id and imports merge without
+// doubling up.
+
+export const HISTORY_VERSION = 1;
+
+// Oldest records are dropped past this
+export const MAX_RUNS = 500;
+
+export interface RunRecord {
+  id: string;
+  date: number; // Date.now() when the shift ended
+  score: number; // Including the shifts before it in the same run
+  itemsShelved: number;
+  thievesCaught: number;
+  itemsStolen: number;
+  duration: number; // Seconds the shift lasted
+  seed: number;
+  shiftNumber: number;
+  store: string; // Layout name
+  difficulty: string; // Difficulty curve name
+  outcome: ShiftOutcome;
+  importedFrom?: string; // File name, for runs that came from someone else
+}
+
+export interface RunHistory {
+  version: number;
+  runs: RunRecord[];
+}
+
+export type RunSortKey =
+  | "score"
+  | "date"
+  | "itemsShelved"
+  | "thievesCaught"
+  | "duration";
+
+export interface RunFilter {
+  store: string | null;
+  outcome: ShiftOutcome | null;
+  source: "all" | "mine" | "imported";
+}
+
+export const NO_RUN_FILTER: RunFilter = {
+  store: null,
+  outcome: null,
+  source: "all",
+};
+
+const OUTCOMES: ShiftOutcome[] = ["quotaMet", "tooManyStolen", "outOfTime"];
+
+const STORAGE_KEY = "mini-market-thief.history";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Record a shift that has just ended
+export function createRunRecord(state: SimulationState): RunRecord {
+  const date = Date.now();
+  return {
+    id: `${date.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    date,
+    score: state.score,
+    itemsShelved: state.shiftStats.itemsShelved,
+    thievesCaught: state.shiftStats.thievesCaught,
+    itemsStolen: state.stolenItems,
+    duration: Math.min(state.time, state.shiftRules.duration),
+    seed: state.seed,
+    shiftNumber: state.shiftNumber,
+    store: state.layout.name,
+    difficulty: state.difficulty.name,
+    outcome: state.outcome ?? "outOfTime",
+  };
+}
+
+// Add records to a history, skipping any it already has, newest first and
+// capped at MAX_RUNS
+export function mergeRuns(
+  runs: RunRecord[],
+  incoming: RunRecord[]
+): RunRecord[] {
+  const known = new Set(runs.map((run) => run.id));
+  return [...runs, ...incoming.filter((run) => !known.has(run.id))]
+    .sort((a, b) => b.date - a.date)
+    .slice(0, MAX_RUNS);
+}
+
+export function filterRuns(runs: RunRecord[], filter: RunFilter): RunRecord[] {
+  return runs.filter(
+    (run) =>
+      (filter.store === null || run.store === filter.store) &&
+      (filter.outcome === null || run.outcome === filter.outcome) &&
+      (filter.source === "all" ||
+        (filter.source === "imported") === (run.importedFrom !== undefined))
+  );
+}
+
+// Highest first, newest first for dates
+export function sortRuns(runs: RunRecord[], key: RunSortKey): RunRecord[] {
+  return [...runs].sort((a, b) => b[key] - a[key] || b.date - a.date);
+}
+
+// The best score among the player's own runs, or null before the first one
+export function getPersonalBest(runs: RunRecord[]): number | null {
+  const own = runs.filter((run) => run.importedFrom === undefined);
+  if (own.length === 0) return null;
+  return Math.max(...own.map((run) => run.score));
+}
+
+// Check a parsed JSON value against the history format. Returns a list of
+// human readable problems, empty when the history is usable.
+export function validateHistory(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["history must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.version !== HISTORY_VERSION) {
+    errors.push(`version must be ${HISTORY_VERSION}`);
+  }
+  if (!Array.isArray(data.runs)) {
+    errors.push("runs must be an array");
+    return errors;
+  }
+
+  const numbers = [
+    "date",
+    "score",
+    "itemsShelved",
+    "thievesCaught",
+    "itemsStolen",
+    "duration",
+    "seed",
+    "shiftNumber",
+  ];
+  data.runs.forEach((run, i) => {
+    const path = `runs[${i}]`;
+    if (!isRecord(run)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof run.id !== "string" || run.id === "") {
+      errors.push(`${path}.id must be a non-empty string`);
+    }
+    for (const key of numbers) {
+      if (!isNumber(run[key])) {
+        errors.push(`${path}.${key} must be a number`);
+      }
+    }
+    if (typeof run.store !== "string" || typeof run.difficulty !== "string") {
+      errors.push(`${path} needs store and difficulty names`);
+    }
+    if (!OUTCOMES.includes(run.outcome as ShiftOutcome)) {
+      errors.push(`${path}.outcome must be one of ${OUTCOMES.join(", ")}`);
+    }
+    if (
+      run.importedFrom !== undefined &&
+      typeof run.importedFrom !== "string"
+    ) {
+      errors.push(`${path}.importedFrom must be a string`);
+    }
+  });
+
+  return errors;
+}
+
+// Mark runs from someone else's exported history with the file they came
+// from. Runs they had imported themselves keep their original source.
+export function markImported(runs: RunRecord[], source: string): RunRecord[] {
+  return runs.map((run) => ({
+    ...run,
+    importedFrom: run.importedFrom ?? source,
+  }));
+}
+
+export function loadRunHistory(): RunRecord[] {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const data: unknown = JSON.parse(saved);
+      if (validateHistory(data).length === 0) {
+        return (data as RunHistory).runs;
+      }
+    }
+  } catch (error) {
+    // Storage blocked or corrupt: start a fresh history
+  }
+  return [];
+}
+
+export function saveRunHistory(runs: RunRecord[]) {
+  try {
+    const history: RunHistory = { version: HISTORY_VERSION, runs };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    // Storage blocked or full: the history lasts until the page is closed
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  DEFAULT_BINDINGS,
+  GAMEPAD,
+  GamepadSnapshot,
+  MAX_KEYS,
+  getKeyActions,
+  loadBindings,
+  readActions,
+  rebind,
+  saveBindings,
+  validateBindings,
+  withoutKeys,
+} from "./input";
+
+const [FIRST, SECOND] = DEFAULT_BINDINGS;
+
+// A copy of the first player's bindings with some of it changed
+function withChanges(changes: Record<string, unknown>): unknown {
+  return { ...FIRST, ...changes };
+}
+
+// A gamepad with the left stick pushed as given and nothing pressed
+function stick(x: number, y: number): GamepadSnapshot {
+  return {
+    axes: [x, y],
+    buttons: Array.from({ length: 16 }, () => ({ pressed: false, value: 0 })),
+  };
+}
+
+describe("validateBindings", () => {
+  it("accepts the default bindings", () => {
+    for (const bindings of DEFAULT_BINDINGS) {
+      expect(validateBindings(bindings)).toEqual([]);
+    }
+  });
+
+  it("rejects anything that isn't an object", () => {
+    expect(validateBindings(null)).toEqual(["bindings must be an object"]);
+    expect(validateBindings("w")).toEqual(["bindings must be an object"]);
+  });
+
+  it("checks the version and every action's slots", () => {
+    expect(
+      validateBindings(
+        withChanges({
+          version: 2,
+          keys: { ...FIRST.keys, catch: ["e", "r", "t"], drop: [88] },
+          buttons: "A",
+        })
+      )
+    ).toEqual([
+      "version must be 1",
+      `keys.catch must be up to ${MAX_KEYS} strings`,
+      `keys.drop must be up to ${MAX_KEYS} strings`,
+      "buttons must be an object",
+    ]);
+  });
+});
+
+describe("loadBindings", () => {
+  afterEach(() => window.localStorage.clear());
+
+  it("loads what was saved", () => {
+    const bindings = rebind(FIRST, "keys", "catch", 0, "c");
+    saveBindings(0, bindings);
+    expect(loadBindings(0)).toEqual(bindings);
+    expect(loadBindings(1)).toBe(SECOND);
+  });
+
+  it("falls back to the defaults for unusable saved bindings", () => {
+    window.localStorage.setItem("mini-market-thief.bindings", "{not json");
+    expect(loadBindings(0)).toBe(FIRST);
+
+    saveBindings(1, { ...SECOND, version: 0 });
+    expect(loadBindings(1)).toBe(SECOND);
+  });
+});
+
+describe("rebind", () => {
+  it("takes the key off whichever action had it", () => {
+    const bindings = rebind(FIRST, "keys", "catch", 0, "q");
+    expect(bindings.keys.catch).toEqual(["q"]);
+    expect(bindings.keys.cart).toEqual([]);
+    expect(getKeyActions(bindings, "Q")).toEqual(["catch"]);
+    expect(FIRST.keys.cart).toEqual(["q"]);
+  });
+
+  it("fills the next free slot and clears slots with null", () => {
+    const added = rebind(FIRST, "keys", "catch", 5, "c");
+    expect(added.keys.catch).toEqual(["e", "c"]);
+    expect(rebind(added, "keys", "catch", 0, null).keys.catch).toEqual(["c"]);
+  });
+
+  it("moves gamepad buttons the same way", () => {
+    const bindings = rebind(FIRST, "buttons", "throw", 0, 0);
+    expect(bindings.buttons.throw).toEqual([0]);
+    expect(bindings.buttons.interact).toEqual([]);
+  });
+});
+
+describe("withoutKeys", () => {
+  it("leaves out keys the other player has", () => {
+    const bindings = withoutKeys(FIRST, SECOND);
+    expect(bindings.keys.moveUp).toEqual(["w"]);
+    expect(bindings.keys.interact).toEqual([" "]);
+    expect(getKeyActions(bindings, "ArrowUp")).toEqual([]);
+  });
+});
+
+describe("readActions", () => {
+  it("moves at full speed with keys, diagonals included", () => {
+    const { move, held } = readActions(FIRST, { w: true, d: true }, null);
+    expect(held).toEqual(["moveUp", "moveRight"]);
+    expect(move[0]).toBeCloseTo(Math.SQRT1_2);
+    expect(move[1]).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("ignores the stick inside the dead zone", () => {
+    const { move } = readActions(FIRST, {}, stick(GAMEPAD.deadZone, 0));
+    expect(move).toEqual([0, 0]);
+  });
+
+  it("scales the stick from the edge of the dead zone", () => {
+    const halfway = GAMEPAD.deadZone + (1 - GAMEPAD.deadZone) / 2;
+    const { move } = readActions(FIRST, {}, stick(0, -halfway));
+    expect(move[0]).toBeCloseTo(0);
+    expect(move[1]).toBeCloseTo(0.5);
+    expect(readActions(FIRST, {}, stick(1, 0)).move).toEqual([1, 0]);
+  });
+
+  it("reads buttons and triggers pushed past the threshold", () => {
+    const gamepad = stick(0, 0);
+    const buttons = [...gamepad.buttons];
+    buttons[FIRST.buttons.interact[0]] = { pressed: true, value: 1 };
+    buttons[FIRST.buttons.throw[0]] = { pressed: false, value: 0.6 };
+    buttons[FIRST.buttons.sprint[0]] = { pressed: false, value: 0.4 };
+    expect(readActions(FIRST, {}, { ...gamepad, buttons }).held).toEqual([
+      "interact",
+      "throw",
+    ]);
+  });
+});
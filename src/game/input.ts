@@ -0,0 +1,339 @@
+// Named player actions and the keyboard keys and gamepad buttons bound to
+// them, with a set of bindings for each local player. Bindings can be
+// changed from the controls screen and are kept in localStorage. Gamepad
+// buttons use the browser's "standard" mapping.
+
+export type InputAction =
+  | "moveUp"
+  | "moveDown"
+  | "moveLeft"
+  | "moveRight"
+  | "interact"
+  | "catch"
+  | "cart"
+  | "drop"
+  | "throw"
+  | "sprint";
+
+// In the order the controls screen lists them
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: "moveUp", label: "Move up" },
+  { action: "moveDown", label: "Move down" },
+  { action: "moveLeft", label: "Move left" },
+  { action: "moveRight", label: "Move right" },
+  { action: "sprint", label: "Sprint" },
+  { action: "interact", label: "Pick up / shelve / scan" },
+  { action: "catch", label: "Catch" },
+  { action: "cart", label: "Push cart" },
+  { action: "drop", label: "Drop" },
+  { action: "throw", label: "Throw (hold)" },
+];
+
+// Actions that fire once per press rather than for as long as they're held
+export const PRESS_ACTIONS: InputAction[] = [
+  "interact",
+  "catch",
+  "cart",
+  "drop",
+];
+
+export const BINDINGS_VERSION = 1;
+
+// Slots per action on each device
+export const MAX_KEYS = 2;
+export const MAX_BUTTONS = 1;
+
+export interface InputBindings {
+  version: number;
+  keys: { [action in InputAction]: string[] }; // KeyboardEvent.key, lower case
+  buttons: { [action in InputAction]: number[] }; // Gamepad button indices
+}
+
+const FIRST_PLAYER_BINDINGS: InputBindings = {
+  version: BINDINGS_VERSION,
+  keys: {
+    moveUp: ["w", "arrowup"],
+    moveDown: ["s", "arrowdown"],
+    moveLeft: ["a", "arrowleft"],
+    moveRight: ["d", "arrowright"],
+    interact: [" "],
+    catch: ["e"],
+    cart: ["q"],
+    drop: ["x"],
+    throw: ["f"],
+    sprint: ["shift"],
+  },
+  buttons: {
+    moveUp: [12], // D-pad
+    moveDown: [13],
+    moveLeft: [14],
+    moveRight: [15],
+    interact: [0], // A / cross
+    catch: [1], // B / circle
+    cart: [3], // Y / triangle
+    drop: [2], // X / square
+    throw: [7], // Right trigger
+    sprint: [6], // Left trigger
+  },
+};
+
+// Arrow keys and the keys around them, clear of the first player's left
+// hand. The first player's arrow keys go to the second in co-op.
+const SECOND_PLAYER_BINDINGS: InputBindings = {
+  version: BINDINGS_VERSION,
+  keys: {
+    moveUp: ["arrowup"],
+    moveDown: ["arrowdown"],
+    moveLeft: ["arrowleft"],
+    moveRight: ["arrowright"],
+    interact: ["enter"],
+    catch: ["/"],
+    cart: ["'"],
+    drop: ["."],
+    throw: [";"],
+    sprint: ["control"],
+  },
+  buttons: FIRST_PLAYER_BINDINGS.buttons, // On a gamepad of their own
+};
+
+// One per local player
+export const DEFAULT_BINDINGS = [FIRST_PLAYER_BINDINGS, SECOND_PLAYER_BINDINGS];
+
+export const GAMEPAD = {
+  moveAxes: [0, 1], // Left stick x and y
+  deadZone: 0.2, // Stick travel ignored around the centre
+  buttonThreshold: 0.5, // How far an analog trigger counts as pressed
+  startButton: 9, // Start / options, which pauses
+};
+
+// The first player's key predates co-op
+function getStorageKey(player: number) {
+  return `mini-market-thief.bindings${player === 0 ? "" : `-${player + 1}`}`;
+}
+
+// The parts of the browser's Gamepad the input layer reads
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+// What the player is doing this frame. `move` is relative to the screen:
+// x to the right and y away from the camera, with length 0 to 1.
+export interface ActionState {
+  move: [number, number];
+  held: InputAction[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Check a parsed JSON value against the bindings format. Returns a list of
+// human readable problems, empty when the bindings are usable.
+export function validateBindings(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["bindings must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.version !== BINDINGS_VERSION) {
+    errors.push(`version must be ${BINDINGS_VERSION}`);
+  }
+
+  const devices: [string, string, number][] = [
+    ["keys", "string", MAX_KEYS],
+    ["buttons", "number", MAX_BUTTONS],
+  ];
+  for (const [device, type, max] of devices) {
+    const bound = data[device];
+    if (!isRecord(bound)) {
+      errors.push(`${device} must be an object`);
+      continue;
+    }
+    for (const { action } of INPUT_ACTIONS) {
+      const values = bound[action];
+      if (
+        !Array.isArray(values) ||
+        values.length > max ||
+        values.some((value) => typeof value !== type)
+      ) {
+        errors.push(`${device}.${action} must be up to ${max} ${type}s`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// A player's saved bindings, or their defaults if there are none or they're
+// unusable
+export function loadBindings(player: number): InputBindings {
+  try {
+    const saved = window.localStorage.getItem(getStorageKey(player));
+    if (saved) {
+      const data: unknown = JSON.parse(saved);
+      if (validateBindings(data).length === 0) {
+        return data as InputBindings;
+      }
+    }
+  } catch (error) {
+    // Storage blocked or corrupt: fall back to the defaults
+  }
+  return DEFAULT_BINDINGS[player];
+}
+
+export function saveBindings(player: number, bindings: InputBindings) {
+  try {
+    window.localStorage.setItem(
+      getStorageKey(player),
+      JSON.stringify(bindings)
+    );
+  } catch (error) {
+    // Storage blocked or full: the bindings last until the page is closed
+  }
+}
+
+// Put a key or button in one of an action's slots, or clear the slot with
+// null. A key or button belongs to one action at a time, so it's taken off
+// any other action first.
+export function rebind<Device extends "keys" | "buttons">(
+  bindings: InputBindings,
+  device: Device,
+  action: InputAction,
+  slot: number,
+  value: InputBindings[Device][InputAction][number] | null
+): InputBindings {
+  const bound = { ...bindings[device] } as {
+    [action in InputAction]: (string | number)[];
+  };
+  for (const { action: other } of INPUT_ACTIONS) {
+    bound[other] = bound[other].filter((existing) => existing !== value);
+  }
+
+  const values = [...bound[action]];
+  if (value === null) {
+    values.splice(slot, 1);
+  } else {
+    values[Math.min(slot, values.length)] = value;
+  }
+  bound[action] = values;
+
+  return { ...bindings, [device]: bound };
+}
+
+// The bindings without the keys another player has bound, so in co-op a
+// key only ever works for one of them
+export function withoutKeys(
+  bindings: InputBindings,
+  other: InputBindings
+): InputBindings {
+  const taken = new Set(Object.values(other.keys).flat());
+  const keys = { ...bindings.keys };
+  for (const { action } of INPUT_ACTIONS) {
+    keys[action] = keys[action].filter((key) => !taken.has(key));
+  }
+  return { ...bindings, keys };
+}
+
+// Actions bound to a key, for turning key presses into action presses
+export function getKeyActions(
+  bindings: InputBindings,
+  key: string
+): InputAction[] {
+  const lower = key.toLowerCase();
+  return INPUT_ACTIONS.map(({ action }) => action).filter((action) =>
+    bindings.keys[action].includes(lower)
+  );
+}
+
+// Readable name for a bound key
+export function formatKey(key: string): string {
+  const names: { [key: string]: string } = {
+    " ": "Space",
+    arrowup: "↑",
+    arrowdown: "↓",
+    arrowleft: "←",
+    arrowright: "→",
+    enter: "Enter",
+    control: "Ctrl",
+  };
+  return names[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+// Readable name for a standard-mapping gamepad button
+export function formatButton(button: number): string {
+  const names = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Back", "Start"];
+  const dpad: { [button: number]: string } = {
+    10: "L3",
+    11: "R3",
+    12: "D-pad ↑",
+    13: "D-pad ↓",
+    14: "D-pad ←",
+    15: "D-pad →",
+  };
+  return names[button] ?? dpad[button] ?? `Button ${button}`;
+}
+
+export function isButtonDown(gamepad: GamepadSnapshot, button: number) {
+  const state = gamepad.buttons[button];
+  return !!state && (state.pressed || state.value >= GAMEPAD.buttonThreshold);
+}
+
+// Combine the keys held down and the gamepad into one action state. Keys
+// and the d-pad move at full speed; the stick moves as far as it's pushed.
+export function readActions(
+  bindings: InputBindings,
+  keysDown: { [key: string]: boolean },
+  gamepad: GamepadSnapshot | null
+): ActionState {
+  const held = INPUT_ACTIONS.map(({ action }) => action).filter(
+    (action) =>
+      bindings.keys[action].some((key) => keysDown[key]) ||
+      (gamepad !== null &&
+        bindings.buttons[action].some((button) =>
+          isButtonDown(gamepad, button)
+        ))
+  );
+
+  let x =
+    (held.includes("moveRight") ? 1 : 0) - (held.includes("moveLeft") ? 1 : 0);
+  let y =
+    (held.includes("moveUp") ? 1 : 0) - (held.includes("moveDown") ? 1 : 0);
+
+  if (gamepad) {
+    const stickX = gamepad.axes[GAMEPAD.moveAxes[0]] ?? 0;
+    const stickY = -(gamepad.axes[GAMEPAD.moveAxes[1]] ?? 0); // Stick up is negative
+    const tilt = Math.sqrt(stickX * stickX + stickY * stickY);
+    if (tilt > GAMEPAD.deadZone) {
+      // Rescale so movement starts from zero at the edge of the dead zone
+      const scale =
+        Math.min(1, (tilt - GAMEPAD.deadZone) / (1 - GAMEPAD.deadZone)) / tilt;
+      x += stickX * scale;
+      y += stickY * scale;
+    }
+  }
+
+  const length = Math.sqrt(x * x + y * y);
+  if (length > 1) {
+    x /= length;
+    y /= length;
+  }
+
+  return { move: [x, y], held };
+}
+
+// Add up two sources of input, e.g. the keyboard and the touch controls
+export function mergeActions(a: ActionState, b: ActionState): ActionState {
+  let x = a.move[0] + b.move[0];
+  let y = a.move[1] + b.move[1];
+  const length = Math.sqrt(x * x + y * y);
+  if (length > 1) {
+    x /= length;
+    y /= length;
+  }
+
+  return {
+    move: [x, y],
+    held: [...a.held, ...b.held.filter((action) => !a.held.includes(action))],
+  };
+}
@@ -0,0 +1,126 @@
+import { ShelfKind } from "./layout";
+import { Vec3 } from "./store";
+
+// Every product belongs to a category, and each category has its own kind
+// of fixture in the store
+export type ProductCategory = "dry" | "chilled" | "bakery" | "produce";
+
+export const PRODUCT_CATEGORIES: {
+  [category in ProductCategory]: {
+    name: string;
+    where: string; // Finishes "Milk goes ..."
+    shelves: ShelfKind[];
+  };
+} = {
+  dry: {
+    name: "Dry goods",
+    where: "on the dry goods shelves",
+    shelves: ["shelf-boxes", "shelf-bags"],
+  },
+  chilled: {
+    name: "Chilled",
+    where: "in the freezers",
+    shelves: ["freezer", "freezers-standing"],
+  },
+  bakery: {
+    name: "Bakery",
+    where: "on the bread display",
+    shelves: ["display-bread"],
+  },
+  produce: {
+    name: "Produce",
+    where: "on the fruit display",
+    shelves: ["display-fruit"],
+  },
+};
+
+// Define item types with their properties. Prices are what a customer pays
+// for one at the till, in score points.
+export const ITEM_TYPES = [
+  {
+    name: "Cereal",
+    category: "dry" as ProductCategory,
+    color: "#e3c04d",
+    scale: [0.25, 0.35, 0.2] as [number, number, number],
+    price: 4,
+  },
+  {
+    name: "Milk",
+    category: "chilled" as ProductCategory,
+    color: "#f0f0f0",
+    scale: [0.2, 0.3, 0.2] as [number, number, number],
+    price: 2,
+  },
+  {
+    name: "Soup",
+    category: "dry" as ProductCategory,
+    color: "#d35400",
+    scale: [0.2, 0.25, 0.2] as [number, number, number],
+    price: 3,
+  },
+  {
+    name: "Pasta",
+    category: "dry" as ProductCategory,
+    color: "#f39c12",
+    scale: [0.25, 0.3, 0.15] as [number, number, number],
+    price: 2,
+  },
+  {
+    name: "Beans",
+    category: "dry" as ProductCategory,
+    color: "#27ae60",
+    scale: [0.2, 0.25, 0.2] as [number, number, number],
+    price: 2,
+  },
+  {
+    name: "Juice",
+    category: "chilled" as ProductCategory,
+    color: "#e74c3c",
+    scale: [0.2, 0.35, 0.2] as [number, number, number],
+    price: 3,
+  },
+  {
+    name: "Bread",
+    category: "bakery" as ProductCategory,
+    color: "#c68642",
+    scale: [0.35, 0.18, 0.2] as [number, number, number],
+    price: 3,
+  },
+  {
+    name: "Apples",
+    category: "produce" as ProductCategory,
+    color: "#8bc34a",
+    scale: [0.25, 0.2, 0.25] as [number, number, number],
+    price: 4,
+  },
+  {
+    name: "Bananas",
+    category: "produce" as ProductCategory,
+    color: "#f4d03f",
+    scale: [0.3, 0.15, 0.2] as [number, number, number],
+    price: 3,
+  },
+];
+
+export type ItemType = (typeof ITEM_TYPES)[number];
+
+// Interface for item objects
+export interface Item {
+  id: number;
+  type: ItemType;
+  position: Vec3;
+  onShelf: boolean;
+}
+
+// Whether a product can be stocked on a kind of shelf
+export function belongsOn(type: ItemType, kind: ShelfKind): boolean {
+  return PRODUCT_CATEGORIES[type.category].shelves.includes(kind);
+}
+
+// Function to check if character is near an item
+export function isNearItem(characterPosition: Vec3, item: Item): boolean {
+  const dx = characterPosition[0] - item.position[0];
+  const dz = characterPosition[2] - item.position[2];
+  const distance = Math.sqrt(dx * dx + dz * dz);
+  return distance < 0.5; // Pickup radius
+}
@@ -0,0 +1,97 @@
+import { PRODUCT_CATEGORIES } from "./items";
+import {
+  DEFAULT_LAYOUT,
+  STORE_LAYOUTS,
+  parseLayout,
+  validateLayout,
+} from "./layout";
+
+// A copy of the default layout with some of it changed
+function withChanges(changes: Record<string, unknown>): unknown {
+  return { ...DEFAULT_LAYOUT, ...changes };
+}
+
+describe("validateLayout", () => {
+  it("accepts the layouts that ship with the game", () => {
+    for (const layout of Object.values(STORE_LAYOUTS)) {
+      expect(validateLayout(layout)).toEqual([]);
+    }
+  });
+
+  it("rejects anything that isn't an object", () => {
+    expect(validateLayout(null)).toEqual(["layout must be an object"]);
+    expect(validateLayout([])).toEqual(["layout must be an object"]);
+  });
+
+  it("checks the version and floor", () => {
+    expect(validateLayout(withChanges({ version: 2 }))).toContain(
+      "version must be 1"
+    );
+    expect(
+      validateLayout(withChanges({ floor: { width: 1.5, depth: 8 } }))
+    ).toContain("floor needs integer width and depth of at least 2 tiles");
+  });
+
+  it("needs a door on a wall", () => {
+    expect(validateLayout(withChanges({ doors: [] }))).toContain(
+      "doors needs at least one door for the thief to use"
+    );
+    expect(
+      validateLayout(
+        withChanges({ walls: [], doors: [{ side: "front", index: 1 }] })
+      )
+    ).toContain("doors[0] is not on a wall segment");
+  });
+
+  it("rejects windows over doors", () => {
+    expect(
+      validateLayout(withChanges({ windows: DEFAULT_LAYOUT.doors }))
+    ).toContain("windows[0] overlaps a door");
+  });
+
+  it("checks shelf ids, kinds, positions and rotations", () => {
+    const [shelf] = DEFAULT_LAYOUT.shelves;
+    const errors = validateLayout(
+      withChanges({
+        shelves: [
+          shelf,
+          { ...shelf, kind: "sofa" },
+          { ...shelf, id: "far", x: 1000 },
+          { ...shelf, id: "tilted", rotation: 45 },
+        ],
+      })
+    );
+    expect(errors).toEqual([
+      `shelves[1].id "${shelf.id}" is used more than once`,
+      expect.stringContaining("shelves[1].kind must be one of"),
+      "shelves[2] is outside the floor",
+      "shelves[3].rotation must be a multiple of 90 degrees",
+    ]);
+  });
+
+  it("needs somewhere for items to appear", () => {
+    expect(validateLayout(withChanges({ spawnZones: [] }))).toContain(
+      "spawnZones must be a non-empty array"
+    );
+  });
+});
+
+describe("parseLayout", () => {
+  it("throws with every problem found", () => {
+    expect(() => parseLayout(withChanges({ version: 0, name: "" }))).toThrow(
+      "Invalid store layout:\n- version must be 1\n- name must be a non-empty string"
+    );
+  });
+});
+
+describe("STORE_LAYOUTS", () => {
+  it("have a shelf for every product category", () => {
+    for (const layout of Object.values(STORE_LAYOUTS)) {
+      const kinds = layout.shelves.map(({ kind }) => kind);
+      const orphaned = Object.values(PRODUCT_CATEGORIES)
+        .filter(({ shelves }) => !shelves.some((kind) => kinds.includes(kind)))
+        .map(({ name }) => `${layout.name}: ${name}`);
+      expect(orphaned).toEqual([]);
+    }
+  });
+});
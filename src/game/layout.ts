@@ -0,0 +1,329 @@
+import miniMarketLayout from "./layouts/mini-market.json";
+import cornerShopLayout from "./layouts/corner-shop.json";
+
+// JSON description of a store. Positions are world units with the floor
+// centred on the origin; one floor tile is one unit. Rotations are degrees
+// around the y axis and must be quarter turns.
+
+export const LAYOUT_VERSION = 1;
+
+export type WallSide = "back" | "front" | "left" | "right";
+
+export const WALL_SIDES: WallSide[] = ["back", "front", "left", "right"];
+
+// Fixtures the player can put items on
+export type ShelfKind =
+  | "shelf-boxes"
+  | "shelf-bags"
+  | "freezer"
+  | "freezers-standing"
+  | "display-bread"
+  | "display-fruit";
+
+// Fixtures that only block movement
+export type FixtureKind =
+  | "shelf-end"
+  | "column"
+  | "cash-register"
+  | "bottle-return";
+
+export const SHELF_KINDS: ShelfKind[] = [
+  "shelf-boxes",
+  "shelf-bags",
+  "freezer",
+  "freezers-standing",
+  "display-bread",
+  "display-fruit",
+];
+
+export const FIXTURE_KINDS: FixtureKind[] = [
+  "shelf-end",
+  "column",
+  "cash-register",
+  "bottle-return",
+];
+
+// A run of wall tiles along one side, from tile index `from` up to `to`
+export interface WallSegment {
+  side: WallSide;
+  from: number;
+  to: number;
+}
+
+// A door or window replacing the wall tile at `index`
+export interface WallOpening {
+  side: WallSide;
+  index: number;
+}
+
+export interface ShelfDefinition {
+  id: string;
+  kind: ShelfKind;
+  x: number;
+  z: number;
+  rotation: number;
+}
+
+export interface FixtureDefinition {
+  id: string;
+  kind: FixtureKind;
+  x: number;
+  z: number;
+  rotation: number;
+}
+
+// Rectangle (centre and size) where loose items may appear
+export interface SpawnZone {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+export interface StoreLayout {
+  version: number;
+  name: string;
+  floor: { width: number; depth: number };
+  walls: WallSegment[];
+  doors: WallOpening[];
+  windows: WallOpening[];
+  shelves: ShelfDefinition[];
+  fixtures: FixtureDefinition[];
+  spawnZones: SpawnZone[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isQuarterTurn(value: unknown): boolean {
+  return isNumber(value) && value % 90 === 0;
+}
+
+function wallLength(floor: { width: number; depth: number }, side: WallSide) {
+  return side === "back" || side === "front" ? floor.width : floor.depth;
+}
+
+function validateOpenings(
+  openings: unknown,
+  name: string,
+  floor: { width: number; depth: number } | null,
+  walls: WallSegment[],
+  errors: string[]
+) {
+  if (!Array.isArray(openings)) {
+    errors.push(`${name} must be an array`);
+    return;
+  }
+
+  openings.forEach((opening, i) => {
+    const path = `${name}[${i}]`;
+    if (!isRecord(opening)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (!WALL_SIDES.includes(opening.side as WallSide)) {
+      errors.push(`${path}.side must be one of ${WALL_SIDES.join(", ")}`);
+      return;
+    }
+    if (!isNumber(opening.index) || !Number.isInteger(opening.index)) {
+      errors.push(`${path}.index must be an integer`);
+      return;
+    }
+    if (
+      floor &&
+      (opening.index < 0 ||
+        opening.index >= wallLength(floor, opening.side as WallSide))
+    ) {
+      errors.push(`${path}.index is outside the ${opening.side} wall`);
+      return;
+    }
+    const onWall = walls.some(
+      (wall) =>
+        wall.side === opening.side &&
+        (opening.index as number) >= wall.from &&
+        (opening.index as number) < wall.to
+    );
+    if (!onWall) {
+      errors.push(`${path} is not on a wall segment`);
+    }
+  });
+}
+
+function validatePlacements<K extends string>(
+  placements: unknown,
+  name: string,
+  kinds: K[],
+  floor: { width: number; depth: number } | null,
+  ids: Set<string>,
+  errors: string[]
+) {
+  if (!Array.isArray(placements)) {
+    errors.push(`${name} must be an array`);
+    return;
+  }
+
+  placements.forEach((placement, i) => {
+    const path = `${name}[${i}]`;
+    if (!isRecord(placement)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof placement.id !== "string" || placement.id === "") {
+      errors.push(`${path}.id must be a non-empty string`);
+    } else if (ids.has(placement.id)) {
+      errors.push(`${path}.id "${placement.id}" is used more than once`);
+    } else {
+      ids.add(placement.id);
+    }
+    if (!kinds.includes(placement.kind as K)) {
+      errors.push(`${path}.kind must be one of ${kinds.join(", ")}`);
+    }
+    if (!isNumber(placement.x) || !isNumber(placement.z)) {
+      errors.push(`${path} needs numeric x and z`);
+    } else if (
+      floor &&
+      (Math.abs(placement.x) > floor.width / 2 ||
+        Math.abs(placement.z) > floor.depth / 2)
+    ) {
+      errors.push(`${path} is outside the floor`);
+    }
+    if (!isQuarterTurn(placement.rotation)) {
+      errors.push(`${path}.rotation must be a multiple of 90 degrees`);
+    }
+  });
+}
+
+// Check a parsed JSON value against the layout format. Returns a list of
+// human readable problems, empty when the layout is usable.
+export function validateLayout(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return ["layout must be an object"];
+  }
+
+  if (data.version !== LAYOUT_VERSION) {
+    errors.push(`version must be ${LAYOUT_VERSION}`);
+  }
+  if (typeof data.name !== "string" || data.name === "") {
+    errors.push("name must be a non-empty string");
+  }
+
+  let floor: { width: number; depth: number } | null = null;
+  if (
+    !isRecord(data.floor) ||
+    !isNumber(data.floor.width) ||
+    !isNumber(data.floor.depth) ||
+    !Number.isInteger(data.floor.width) ||
+    !Number.isInteger(data.floor.depth) ||
+    data.floor.width < 2 ||
+    data.floor.depth < 2
+  ) {
+    errors.push("floor needs integer width and depth of at least 2 tiles");
+  } else {
+    floor = { width: data.floor.width, depth: data.floor.depth };
+  }
+
+  const walls: WallSegment[] = [];
+  if (!Array.isArray(data.walls)) {
+    errors.push("walls must be an array");
+  } else {
+    data.walls.forEach((wall, i) => {
+      const path = `walls[${i}]`;
+      if (
+        !isRecord(wall) ||
+        !WALL_SIDES.includes(wall.side as WallSide) ||
+        !Number.isInteger(wall.from) ||
+        !Number.isInteger(wall.to)
+      ) {
+        errors.push(`${path} needs a side and integer from/to tile indices`);
+        return;
+      }
+      const segment = wall as unknown as WallSegment;
+      if (
+        segment.from < 0 ||
+        segment.to <= segment.from ||
+        (floor && segment.to > wallLength(floor, segment.side))
+      ) {
+        errors.push(`${path} does not fit along the ${segment.side} wall`);
+        return;
+      }
+      walls.push(segment);
+    });
+  }
+
+  validateOpenings(data.doors, "doors", floor, walls, errors);
+  validateOpenings(data.windows, "windows", floor, walls, errors);
+  if (Array.isArray(data.doors) && data.doors.length === 0) {
+    errors.push("doors needs at least one door for the thief to use");
+  }
+  if (Array.isArray(data.doors) && Array.isArray(data.windows)) {
+    const doorKeys = data.doors.map(
+      (door) => isRecord(door) && `${door.side}:${door.index}`
+    );
+    data.windows.forEach((window, i) => {
+      if (
+        isRecord(window) &&
+        doorKeys.includes(`${window.side}:${window.index}`)
+      ) {
+        errors.push(`windows[${i}] overlaps a door`);
+      }
+    });
+  }
+
+  const ids = new Set<string>();
+  validatePlacements(data.shelves, "shelves", SHELF_KINDS, floor, ids, errors);
+  validatePlacements(
+    data.fixtures,
+    "fixtures",
+    FIXTURE_KINDS,
+    floor,
+    ids,
+    errors
+  );
+  if (Array.isArray(data.shelves) && data.shelves.length === 0) {
+    errors.push("shelves needs at least one shelf to restock");
+  }
+
+  if (!Array.isArray(data.spawnZones) || data.spawnZones.length === 0) {
+    errors.push("spawnZones must be a non-empty array");
+  } else {
+    data.spawnZones.forEach((zone, i) => {
+      if (
+        !isRecord(zone) ||
+        !isNumber(zone.x) ||
+        !isNumber(zone.z) ||
+        !isNumber(zone.width) ||
+        !isNumber(zone.depth) ||
+        zone.width <= 0 ||
+        zone.depth <= 0
+      ) {
+        errors.push(`spawnZones[${i}] needs x, z and a positive width/depth`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+// Validate and return a layout, throwing with every problem found
+export function parseLayout(data: unknown): StoreLayout {
+  const errors = validateLayout(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid store layout:\n- ${errors.join("\n- ")}`);
+  }
+  return data as StoreLayout;
+}
+
+// Layouts that ship with the game, keyed by the `?store=` query value
+export const STORE_LAYOUTS: { [key: string]: StoreLayout } = {
+  "mini-market": parseLayout(miniMarketLayout),
+  "corner-shop": parseLayout(cornerShopLayout),
+};
+
+export const DEFAULT_LAYOUT = STORE_LAYOUTS["mini-market"];
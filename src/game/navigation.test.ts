@@ -0,0 +1,75 @@
+import { ShelfDefinition, StoreLayout } from "./layout";
+import {
+  buildNavGrid,
+  findPath,
+  hasLineOfSight,
+  isWalkable,
+} from "./navigation";
+import { Vec3 } from "./store";
+
+// A row of shelves across the middle of a 6x6 store, at the given x
+// positions
+function layoutWithRow(xs: number[]): StoreLayout {
+  return {
+    version: 1,
+    name: "Test shop",
+    floor: { width: 6, depth: 6 },
+    walls: [{ side: "front", from: 0, to: 6 }],
+    doors: [{ side: "front", index: 2 }],
+    windows: [],
+    shelves: xs.map(
+      (x): ShelfDefinition => ({
+        id: `shelf-${x}`,
+        kind: "shelf-boxes",
+        x,
+        z: 0.5,
+        rotation: 0,
+      })
+    ),
+    fixtures: [],
+    spawnZones: [{ x: 0, z: 0, width: 4, depth: 4 }],
+  };
+}
+
+const BACK: Vec3 = [-2, 0.15, -2];
+const FRONT: Vec3 = [-2, 0.15, 2];
+
+describe("findPath", () => {
+  it("goes straight across open floor", () => {
+    const grid = buildNavGrid(layoutWithRow([]));
+    expect(findPath(grid, BACK, FRONT)).toEqual([FRONT]);
+  });
+
+  it("walks around shelves in the way", () => {
+    const grid = buildNavGrid(layoutWithRow([-2.5, -1.5, -0.5, 0.5, 1.5]));
+    const path = findPath(grid, BACK, FRONT);
+    if (!path) throw new Error("No path around the shelves");
+
+    expect(path.length).toBeGreaterThan(1);
+    expect(path[path.length - 1]).toEqual(FRONT);
+    let from = BACK;
+    for (const point of path) {
+      expect(isWalkable(grid, point[0], point[2])).toBe(true);
+      expect(hasLineOfSight(grid, from, point)).toBe(true);
+      expect(point[1]).toBe(BACK[1]);
+      from = point;
+    }
+    // Through the gap at the end of the row
+    expect(path.some(([x]) => x > 2)).toBe(true);
+  });
+
+  it("stops short of a goal inside a shelf", () => {
+    const grid = buildNavGrid(layoutWithRow([0.5]));
+    const path = findPath(grid, BACK, [0.5, 0.15, 0.5]);
+    if (!path) throw new Error("No path to the shelf");
+
+    const [x, , z] = path[path.length - 1];
+    expect(isWalkable(grid, x, z)).toBe(true);
+    expect(Math.hypot(x - 0.5, z - 0.5)).toBeLessThan(1);
+  });
+
+  it("has no path between parts of the store that don't connect", () => {
+    const grid = buildNavGrid(layoutWithRow([-2.5, -1.5, -0.5, 0.5, 1.5, 2.5]));
+    expect(findPath(grid, BACK, FRONT)).toBeNull();
+  });
+});
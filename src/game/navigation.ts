@@ -0,0 +1,405 @@
+import { StoreLayout } from "./layout";
+import {
+  CHARACTER_SIZE,
+  TILE_SPACING,
+  Vec3,
+  checkCollisionWithShelves,
+  getDoorPoints,
+} from "./store";
+
+// Walkability grid built from a layout's shelf, fixture and wall footprints,
+// with A* search and path following for the thief and other NPCs.
+
+export const NAV_CELL_SIZE = 0.25;
+
+// Once this close to a corner waypoint, an agent that can already see the
+// next one heads straight for it instead, rounding the corner off
+const CORNER_RADIUS = 0.3;
+
+export interface NavGrid {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  originX: number; // World x of the left edge of column 0
+  originZ: number; // World z of the top edge of row 0
+  blocked: boolean[];
+}
+
+// Anything that walks around the store using the navigation grid
+export interface NavAgent {
+  position: Vec3;
+  rotation: number;
+  path: Vec3[]; // Remaining waypoints, the last one being the goal
+  pathGoal: Vec3 | null; // Target the current path was planned for
+  moving: boolean;
+}
+
+function isInDoorway(layout: StoreLayout, x: number, z: number): boolean {
+  const clearance = TILE_SPACING / 2 - CHARACTER_SIZE.radius;
+  return layout.doors.some((door) => {
+    const { inside, outside } = getDoorPoints(layout, door);
+    return (
+      x >= Math.min(inside[0], outside[0]) - clearance &&
+      x <= Math.max(inside[0], outside[0]) + clearance &&
+      z >= Math.min(inside[2], outside[2]) - clearance &&
+      z <= Math.max(inside[2], outside[2]) + clearance
+    );
+  });
+}
+
+export function buildNavGrid(layout: StoreLayout): NavGrid {
+  const halfWidth = (layout.floor.width * TILE_SPACING) / 2;
+  const halfDepth = (layout.floor.depth * TILE_SPACING) / 2;
+
+  // One extra tile all round, so the spots outside the doors are on the grid
+  const originX = -halfWidth - TILE_SPACING;
+  const originZ = -halfDepth - TILE_SPACING;
+  const columns = Math.round(
+    (halfWidth * 2 + TILE_SPACING * 2) / NAV_CELL_SIZE
+  );
+  const rows = Math.round((halfDepth * 2 + TILE_SPACING * 2) / NAV_CELL_SIZE);
+  const blocked: boolean[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = originX + (column + 0.5) * NAV_CELL_SIZE;
+      const z = originZ + (row + 0.5) * NAV_CELL_SIZE;
+      const onFloor =
+        Math.abs(x) <= halfWidth - CHARACTER_SIZE.radius &&
+        Math.abs(z) <= halfDepth - CHARACTER_SIZE.radius;
+
+      // A cell is only free if no part of it would put a character inside
+      // a fixture, so paths never graze shelf corners
+      const half = NAV_CELL_SIZE / 2;
+      const touchesFixture = [
+        [x, z],
+        [x - half, z - half],
+        [x + half, z - half],
+        [x - half, z + half],
+        [x + half, z + half],
+      ].some(([px, pz]) => checkCollisionWithShelves(layout, px, pz));
+
+      blocked.push((!onFloor && !isInDoorway(layout, x, z)) || touchesFixture);
+    }
+  }
+
+  return { cellSize: NAV_CELL_SIZE, columns, rows, originX, originZ, blocked };
+}
+
+// Layouts are never modified in place, so a grid per layout object stays
+// valid until the layout itself is replaced
+const navGridCache = new WeakMap<StoreLayout, NavGrid>();
+
+export function getNavGrid(layout: StoreLayout): NavGrid {
+  let grid = navGridCache.get(layout);
+  if (!grid) {
+    grid = buildNavGrid(layout);
+    navGridCache.set(layout, grid);
+  }
+  return grid;
+}
+
+function cellIndexAt(grid: NavGrid, x: number, z: number): number {
+  const column = Math.floor((x - grid.originX) / grid.cellSize);
+  const row = Math.floor((z - grid.originZ) / grid.cellSize);
+  if (column < 0 || column >= grid.columns || row < 0 || row >= grid.rows) {
+    return -1;
+  }
+  return row * grid.columns + column;
+}
+
+function cellCenter(grid: NavGrid, index: number): Vec3 {
+  const column = index % grid.columns;
+  const row = Math.floor(index / grid.columns);
+  return [
+    grid.originX + (column + 0.5) * grid.cellSize,
+    0,
+    grid.originZ + (row + 0.5) * grid.cellSize,
+  ];
+}
+
+export function isWalkable(grid: NavGrid, x: number, z: number): boolean {
+  const index = cellIndexAt(grid, x, z);
+  return index !== -1 && !grid.blocked[index];
+}
+
+// The free cell closest to a point, for starts and goals inside obstacles
+function nearestFreeCell(grid: NavGrid, x: number, z: number): number {
+  const index = cellIndexAt(grid, x, z);
+  if (index !== -1 && !grid.blocked[index]) return index;
+
+  let best = -1;
+  let bestDistance = Infinity;
+  grid.blocked.forEach((blocked, candidate) => {
+    if (blocked) return;
+    const [cx, , cz] = cellCenter(grid, candidate);
+    const distance = (cx - x) * (cx - x) + (cz - z) * (cz - z);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  });
+  return best;
+}
+
+// Where an agent can stand to reach something inside an obstacle, such as
+// the shelf it wants to take from. Null if the grid has no free cells.
+export function getNearestWalkablePoint(
+  grid: NavGrid,
+  x: number,
+  z: number
+): Vec3 | null {
+  const cell = nearestFreeCell(grid, x, z);
+  return cell === -1 ? null : cellCenter(grid, cell);
+}
+
+// Sample the straight segment between two points against the grid
+export function hasLineOfSight(grid: NavGrid, from: Vec3, to: Vec3): boolean {
+  const dx = to[0] - from[0];
+  const dz = to[2] - from[2];
+  const length = Math.sqrt(dx * dx + dz * dz);
+  const steps = Math.ceil(length / (grid.cellSize / 2));
+
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    if (!isWalkable(grid, from[0] + dx * t, from[2] + dz * t)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Minimal binary heap keyed on f-score for the A* open set
+class OpenSet {
+  private heap: { index: number; score: number }[] = [];
+
+  get size() {
+    return this.heap.length;
+  }
+
+  push(index: number, score: number) {
+    const heap = this.heap;
+    heap.push({ index, score });
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].score <= heap[i].score) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].score < heap[smallest].score) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right].score < heap[smallest].score) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top.index;
+  }
+}
+
+// Octile distance, the exact cost of an unobstructed 8-way grid path
+function heuristic(grid: NavGrid, a: number, b: number): number {
+  const dx = Math.abs((a % grid.columns) - (b % grid.columns));
+  const dz = Math.abs(
+    Math.floor(a / grid.columns) - Math.floor(b / grid.columns)
+  );
+  return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+}
+
+function searchCells(grid: NavGrid, start: number, goal: number): number[] {
+  const cameFrom = new Map<number, number>();
+  const gScore = new Map<number, number>([[start, 0]]);
+  const closed = new Set<number>();
+  const open = new OpenSet();
+  open.push(start, heuristic(grid, start, goal));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goal) {
+      const cells = [current];
+      while (cameFrom.has(cells[0])) {
+        cells.unshift(cameFrom.get(cells[0])!);
+      }
+      return cells;
+    }
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    const column = current % grid.columns;
+    const row = Math.floor(current / grid.columns);
+
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dz === 0) continue;
+        const nextColumn = column + dx;
+        const nextRow = row + dz;
+        if (
+          nextColumn < 0 ||
+          nextColumn >= grid.columns ||
+          nextRow < 0 ||
+          nextRow >= grid.rows
+        ) {
+          continue;
+        }
+
+        const next = nextRow * grid.columns + nextColumn;
+        if (grid.blocked[next] || closed.has(next)) continue;
+
+        // Don't cut diagonally past the corner of an obstacle
+        if (
+          dx !== 0 &&
+          dz !== 0 &&
+          (grid.blocked[row * grid.columns + nextColumn] ||
+            grid.blocked[nextRow * grid.columns + column])
+        ) {
+          continue;
+        }
+
+        const tentative =
+          gScore.get(current)! + (dx !== 0 && dz !== 0 ? Math.SQRT2 : 1);
+        if (tentative < (gScore.get(next) ?? Infinity)) {
+          cameFrom.set(next, current);
+          gScore.set(next, tentative);
+          open.push(next, tentative + heuristic(grid, next, goal));
+        }
+      }
+    }
+  }
+
+  return [];
+}
+
+// Drop every waypoint the agent could skip by walking straight past it
+function smoothPath(grid: NavGrid, from: Vec3, points: Vec3[]): Vec3[] {
+  const smoothed: Vec3[] = [];
+  let anchor = from;
+  let i = 0;
+
+  while (i < points.length) {
+    let furthest = i;
+    for (let j = points.length - 1; j > i; j--) {
+      if (hasLineOfSight(grid, anchor, points[j])) {
+        furthest = j;
+        break;
+      }
+    }
+    smoothed.push(points[furthest]);
+    anchor = points[furthest];
+    i = furthest + 1;
+  }
+
+  return smoothed;
+}
+
+// Plan a walkable route between two points. Returns the waypoints after
+// `from`, ending at `to` (or the nearest free spot to it), or null when the
+// two are not connected.
+export function findPath(grid: NavGrid, from: Vec3, to: Vec3): Vec3[] | null {
+  const start = nearestFreeCell(grid, from[0], from[2]);
+  const goal = nearestFreeCell(grid, to[0], to[2]);
+  if (start === -1 || goal === -1) return null;
+
+  const cells = searchCells(grid, start, goal);
+  if (cells.length === 0) return null;
+
+  const points = cells.slice(1).map((cell) => cellCenter(grid, cell));
+  const end: Vec3 = isWalkable(grid, to[0], to[2])
+    ? [to[0], from[1], to[2]]
+    : cellCenter(grid, goal);
+  points.push([end[0], from[1], end[2]]);
+
+  return smoothPath(grid, from, points).map(
+    (point) => [point[0], from[1], point[2]] as Vec3
+  );
+}
+
+function sameSpot(a: Vec3, b: Vec3): boolean {
+  return Math.abs(a[0] - b[0]) < 0.01 && Math.abs(a[2] - b[2]) < 0.01;
+}
+
+// Walk an agent towards `target` for one step, planning a new path whenever
+// the target moves. Mutates the agent, which must be a fresh copy.
+export function moveAgent(
+  layout: StoreLayout,
+  agent: NavAgent,
+  target: Vec3,
+  speed: number,
+  dt: number,
+  arrivalRadius: number
+) {
+  const grid = getNavGrid(layout);
+
+  if (!agent.pathGoal || !sameSpot(agent.pathGoal, target)) {
+    // Fall back to a straight line if the target can't be reached
+    agent.path = findPath(grid, agent.position, target) ?? [[...target]];
+    agent.pathGoal = [...target];
+  }
+
+  agent.moving = false;
+  let remaining = speed * dt;
+
+  while (remaining > 0 && agent.path.length > 0) {
+    const waypoint = agent.path[0];
+    const dx = waypoint[0] - agent.position[0];
+    const dz = waypoint[2] - agent.position[2];
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    const isLast = agent.path.length === 1;
+
+    // Round off corners once the next leg is clear
+    if (
+      !isLast &&
+      distance < CORNER_RADIUS &&
+      hasLineOfSight(grid, agent.position, agent.path[1])
+    ) {
+      agent.path = agent.path.slice(1);
+      continue;
+    }
+
+    // Close enough to the goal already
+    if (isLast && distance <= arrivalRadius && !agent.moving) {
+      break;
+    }
+
+    if (distance > 0) {
+      agent.rotation = Math.atan2(dx, dz);
+    }
+    agent.moving = true;
+
+    if (distance <= remaining) {
+      agent.position = [waypoint[0], agent.position[1], waypoint[2]];
+      agent.path = agent.path.slice(1);
+      remaining -= distance;
+    } else {
+      agent.position = [
+        agent.position[0] + (dx / distance) * remaining,
+        agent.position[1],
+        agent.position[2] + (dz / distance) * remaining,
+      ];
+      remaining = 0;
+    }
+  }
+}
+
+// Forget the current route, e.g. after teleporting an agent
+export function clearPath(agent: NavAgent) {
+  agent.path = [];
+  agent.pathGoal = null;
+}
@@ -0,0 +1,128 @@
+import {
+  clampInputs,
+  createRecording,
+  createReplay,
+  decodeInputs,
+  encodeInputs,
+  getRecordingLength,
+  migrateRecording,
+  recordTick,
+  seekReplay,
+  validateRecording,
+} from "./replay";
+import {
+  NO_INPUTS,
+  SimulationInputs,
+  SimulationState,
+  TICK,
+  createInitialState,
+  step,
+} from "./simulation";
+
+describe("encoding inputs", () => {
+  it("round-trips buttons and movement to hundredths", () => {
+    const inputs: SimulationInputs = {
+      move: [0.7071, -0.7071],
+      interact: true,
+      catch: false,
+      cart: true,
+      drop: false,
+      aim: false,
+      sprint: true,
+    };
+    const encoded = encodeInputs(inputs);
+    expect(encoded).toEqual([0.71, -0.71, 0b100101]);
+    expect(decodeInputs(encoded)).toEqual({ ...inputs, move: [0.71, -0.71] });
+  });
+
+  it("encodes no inputs as nothing pressed", () => {
+    expect(encodeInputs(NO_INPUTS)).toEqual([0, 0, 0]);
+    expect(decodeInputs([0, 0, 0])).toEqual(NO_INPUTS);
+  });
+
+  it("clamps inputs from elsewhere to ones the game could record", () => {
+    expect(clampInputs([300, 0, 0xffff])).toEqual([1, 0, 0b111111]);
+    expect(clampInputs([0.5, 0.5, 3])).toEqual([0.5, 0.5, 3]);
+  });
+});
+
+describe("recordings", () => {
+  it("run-length encodes repeated inputs", () => {
+    const recording = createRecording(createInitialState(1));
+    recordTick(recording, 0, [1, 0, 0]);
+    recordTick(recording, 0, [1, 0, 0]);
+    recordTick(recording, 0, [1, 0, 1]);
+    expect(recording.ticks).toEqual([
+      [
+        [2, 1, 0, 0],
+        [1, 1, 0, 1],
+      ],
+    ]);
+    expect(getRecordingLength(recording)).toBe(3);
+  });
+
+  it("validates what a JSON file holds", () => {
+    const recording = createRecording(createInitialState(1));
+    recordTick(recording, 0, [0, 0, 0]);
+    const data = JSON.parse(JSON.stringify(recording));
+    expect(validateRecording(migrateRecording(data))).toEqual([]);
+    expect(validateRecording({ ...data, ticks: [[[0, 0, 0, 0]]] })).toEqual([
+      "ticks[0][0] must be [count, moveX, moveY, buttons]",
+    ]);
+    expect(migrateRecording({ ...data, version: 99 })).toBeNull();
+  });
+
+  it("upgrades a single player recording", () => {
+    const { start, ticks } = createRecording(createInitialState(1));
+    const { players, ...state } = start;
+    const [{ heldItemId, ...player }] = players;
+    const migrated = migrateRecording(
+      JSON.parse(
+        JSON.stringify({
+          version: 1,
+          start: {
+            ...state,
+            player,
+            heldItemId,
+            cart: { ...state.cart, pushed: false },
+          },
+          ticks: ticks[0],
+        })
+      )
+    );
+    expect(validateRecording(migrated)).toEqual([]);
+  });
+});
+
+describe("replays", () => {
+  // Walk about for a while, past the first checkpoint, recording as we go
+  function playAndRecord(ticks: number) {
+    let state = createInitialState(3);
+    const recording = createRecording(state);
+    const states: SimulationState[] = [state];
+    for (let tick = 0; tick < ticks; tick++) {
+      const encoded = encodeInputs({
+        ...NO_INPUTS,
+        move: [Math.sin(tick / 90), Math.cos(tick / 90)],
+        interact: tick % 45 === 0,
+      });
+      recordTick(recording, 0, encoded);
+      state = step(state, [decodeInputs(encoded)], TICK);
+      states.push(state);
+    }
+    return { recording, states };
+  }
+
+  it("plays back exactly what was recorded", () => {
+    const ticks = Math.round(12 / TICK);
+    const { recording, states } = playAndRecord(ticks);
+    const replay = createReplay(JSON.parse(JSON.stringify(recording)));
+
+    const end = seekReplay(replay, ticks);
+    expect(end).toEqual({ ...states[ticks], events: [] });
+
+    // Back to before the end, from a checkpoint kept on the way
+    expect(replay.checkpoints.length).toBeGreaterThan(1);
+    expect(seekReplay(replay, 100)).toEqual({ ...states[100], events: [] });
+  });
+});
@@ -0,0 +1,253 @@
+import { migrateState, validateState } from "./save";
+import { SimulationInputs, SimulationState, TICK, step } from "./simulation";
+
+// Input recordings. A shift is recorded as the state it started from plus
+// every player's inputs for every tick, run-length encoded since the inputs rarely
+// change from one tick to the next. step() only depends on its inputs, so
+// playing them back from the start state re-creates the shift exactly, as
+// long as the game rules haven't changed since it was recorded.
+
+export const RECORDING_VERSION = 2;
+
+// Inputs as stored: movement rounded to hundredths, plus a bit per button.
+// The live game steps with the decoded inputs too, so a replay sees exactly
+// what the recorded game did.
+export type EncodedInputs = [moveX: number, moveY: number, buttons: number];
+
+// `count` ticks in a row with the same inputs
+export type InputRun = [count: number, ...inputs: EncodedInputs];
+
+export interface InputRecording {
+  version: number;
+  start: SimulationState; // Without events
+  ticks: InputRun[][]; // One list per player
+}
+
+// Upgrades from one recording version to the next, keyed by the version they
+// upgrade from
+const RECORDING_MIGRATIONS: {
+  [version: number]: (
+    recording: Record<string, unknown>
+  ) => Record<string, unknown>;
+} = {
+  // Co-op: the start state has a list of players, and so do the ticks
+  1: (recording) => ({
+    ...recording,
+    version: 2,
+    start: migrateState(recording.start, 1),
+    ticks: [recording.ticks],
+  }),
+};
+
+// Buttons in the order of their bits
+const BUTTONS: (keyof Omit<SimulationInputs, "move">)[] = [
+  "interact",
+  "catch",
+  "cart",
+  "drop",
+  "aim",
+  "sprint",
+];
+
+// Ticks between the states a replay keeps for seeking
+const CHECKPOINT_TICKS = Math.round(10 / TICK);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function encodeInputs(inputs: SimulationInputs): EncodedInputs {
+  let buttons = 0;
+  BUTTONS.forEach((button, bit) => {
+    if (inputs[button]) buttons |= 1 << bit;
+  });
+  return [
+    Math.round(inputs.move[0] * 100) / 100,
+    Math.round(inputs.move[1] * 100) / 100,
+    buttons,
+  ];
+}
+
+// Encoded inputs from somewhere untrusted made into ones the game could
+// have recorded: movement no longer than full stick, and only the known
+// buttons
+export function clampInputs([
+  moveX,
+  moveY,
+  buttons,
+]: EncodedInputs): EncodedInputs {
+  const length = Math.hypot(moveX, moveY);
+  const scale = length > 1 ? 1 / length : 1;
+  return [moveX * scale, moveY * scale, buttons & ((1 << BUTTONS.length) - 1)];
+}
+
+export function decodeInputs([
+  moveX,
+  moveY,
+  buttons,
+]: EncodedInputs): SimulationInputs {
+  const inputs = { move: [moveX, moveY] } as SimulationInputs;
+  BUTTONS.forEach((button, bit) => {
+    inputs[button] = (buttons & (1 << bit)) !== 0;
+  });
+  return inputs;
+}
+
+export function createRecording(start: SimulationState): InputRecording {
+  return {
+    version: RECORDING_VERSION,
+    start: { ...start, events: [] },
+    ticks: start.players.map(() => []),
+  };
+}
+
+// Add one tick's inputs for a player. Changes the recording in place, since
+// it grows sixty times a second for the whole shift.
+export function recordTick(
+  recording: InputRecording,
+  player: number,
+  inputs: EncodedInputs
+) {
+  const ticks = recording.ticks[player];
+  const last = ticks[ticks.length - 1];
+  if (
+    last &&
+    last[1] === inputs[0] &&
+    last[2] === inputs[1] &&
+    last[3] === inputs[2]
+  ) {
+    last[0]++;
+  } else {
+    ticks.push([1, ...inputs]);
+  }
+}
+
+// In ticks, which is the same for every player
+export function getRecordingLength(recording: InputRecording): number {
+  return (recording.ticks[0] ?? []).reduce((sum, [count]) => sum + count, 0);
+}
+
+// Bring a recording made by an older version of the game up to date. Returns
+// null for recordings from a newer version, or ones too old to have a
+// migration path; anything that isn't a recording at all is left for
+// validateRecording() to complain about.
+export function migrateRecording(data: unknown): unknown {
+  if (!isRecord(data) || !isNumber(data.version)) return data;
+
+  let recording = data;
+  while (isNumber(recording.version) && recording.version < RECORDING_VERSION) {
+    const migrate = RECORDING_MIGRATIONS[recording.version];
+    if (!migrate) return null;
+    recording = migrate(recording);
+  }
+  return recording.version === RECORDING_VERSION ? recording : null;
+}
+
+// Check a parsed JSON value against the recording format. Returns a list of
+// human readable problems, empty when the recording can be played.
+export function validateRecording(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["recording must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.version !== RECORDING_VERSION) {
+    errors.push(`version must be ${RECORDING_VERSION}`);
+  }
+  errors.push(...validateState(data.start, "start"));
+
+  const players =
+    isRecord(data.start) && Array.isArray(data.start.players)
+      ? data.start.players.length
+      : 0;
+  if (
+    !Array.isArray(data.ticks) ||
+    data.ticks.length !== players ||
+    !data.ticks.every(Array.isArray)
+  ) {
+    errors.push("ticks must be a list of runs for each player");
+  } else {
+    const lengths = new Set<number>();
+    data.ticks.forEach((runs: unknown[], player) => {
+      let length = 0;
+      runs.forEach((run, i) => {
+        if (
+          !Array.isArray(run) ||
+          run.length !== 4 ||
+          !run.every(isNumber) ||
+          !Number.isInteger(run[0]) ||
+          run[0] < 1
+        ) {
+          errors.push(
+            `ticks[${player}][${i}] must be [count, moveX, moveY, buttons]`
+          );
+        } else {
+          length += run[0];
+        }
+      });
+      lengths.add(length);
+    });
+    if (lengths.size > 1) {
+      errors.push("ticks must cover the same number of ticks for each player");
+    }
+  }
+
+  return errors;
+}
+
+// A recording being played back. The inputs are unpacked to one per tick,
+// and states along the way are kept so seeking doesn't have to start over
+// from the beginning every time.
+export interface Replay {
+  recording: InputRecording;
+  inputs: SimulationInputs[][]; // Index is the tick, then the player
+  checkpoints: SimulationState[]; // Index times CHECKPOINT_TICKS is the tick
+}
+
+export function createReplay(recording: InputRecording): Replay {
+  const inputs: SimulationInputs[][] = [];
+  recording.ticks.forEach((runs, player) => {
+    let tick = 0;
+    for (const [count, ...encoded] of runs) {
+      const decoded = decodeInputs(encoded);
+      for (let i = 0; i < count; i++) {
+        inputs[tick] = inputs[tick] ?? [];
+        inputs[tick][player] = decoded;
+        tick++;
+      }
+    }
+  });
+  return { recording, inputs, checkpoints: [recording.start] };
+}
+
+// Play one tick, from the state at `tick` to the state at `tick + 1`.
+// Checkpoints passed on the way are kept in the replay.
+export function stepReplay(
+  replay: Replay,
+  state: SimulationState,
+  tick: number
+): SimulationState {
+  const next = step(state, replay.inputs[tick], TICK);
+  const checkpoint = (tick + 1) / CHECKPOINT_TICKS;
+  if (Number.isInteger(checkpoint) && !replay.checkpoints[checkpoint]) {
+    replay.checkpoints[checkpoint] = next;
+  }
+  return next;
+}
+
+// The state at any tick, simulated forward from the nearest checkpoint
+export function seekReplay(replay: Replay, tick: number): SimulationState {
+  const target = Math.max(0, Math.min(tick, replay.inputs.length));
+  let checkpoint = Math.floor(target / CHECKPOINT_TICKS);
+  while (!replay.checkpoints[checkpoint]) checkpoint--;
+
+  let state = replay.checkpoints[checkpoint];
+  for (let t = checkpoint * CHECKPOINT_TICKS; t < target; t++) {
+    state = stepReplay(replay, state, t);
+  }
+  return { ...state, events: [] };
+}
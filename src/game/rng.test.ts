@@ -0,0 +1,48 @@
+import { nextRandom, parseSeed } from "./rng";
+
+describe("parseSeed", () => {
+  it("reads numbers as they are", () => {
+    expect(parseSeed("12345")).toBe(12345);
+    expect(parseSeed("  42 ")).toBe(42);
+  });
+
+  it("wraps numbers into 32 bits", () => {
+    expect(parseSeed("4294967296")).toBe(0);
+    expect(parseSeed("4294967297")).toBe(1);
+  });
+
+  it("hashes words to the same seed every time", () => {
+    const seed = parseSeed("banana");
+    expect(seed).toBe(parseSeed("banana"));
+    expect(seed).toBe(parseSeed(" banana "));
+    expect(seed).not.toBe(parseSeed("bananas"));
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+
+  it("has no seed for nothing", () => {
+    expect(parseSeed(null)).toBeNull();
+    expect(parseSeed("")).toBeNull();
+    expect(parseSeed("   ")).toBeNull();
+  });
+});
+
+describe("nextRandom", () => {
+  it("follows the same sequence from the same state", () => {
+    const [first, state] = nextRandom(7);
+    const [second] = nextRandom(state);
+    expect(nextRandom(7)).toEqual([first, state]);
+    expect(nextRandom(state)[0]).toBe(second);
+    expect(first).not.toBe(second);
+  });
+
+  it("draws numbers in [0, 1)", () => {
+    let state = 1;
+    for (let i = 0; i < 1000; i++) {
+      const [value, next] = nextRandom(state);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      state = next;
+    }
+  });
+});
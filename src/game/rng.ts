@@ -0,0 +1,36 @@
+// Seedable random number generator (mulberry32). Its whole state is one
+// 32-bit integer, so it can live inside the simulation state and a run can
+// be reproduced exactly from its seed.
+
+export function nextRandom(rngState: number): [number, number] {
+  const nextState = (rngState + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextState];
+}
+
+// Turn a seed typed by a person (a number or any word) into an unsigned
+// 32-bit integer
+export function parseSeed(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  // FNV-1a hash for non-numeric seeds
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Pick a fresh seed when none was requested
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
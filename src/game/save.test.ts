@@ -0,0 +1,83 @@
+import {
+  SAVE_VERSION,
+  clearSnapshot,
+  createSnapshot,
+  loadSnapshot,
+  migrateSnapshot,
+  migrateState,
+  saveSnapshot,
+  validateSnapshot,
+} from "./save";
+import { createInitialState } from "./simulation";
+
+// A fresh state as it comes back out of JSON
+function savedState(): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(createSnapshot(createInitialState(1))))
+    .state;
+}
+
+// The same state the way version 1 saved it, with a single player and a
+// cart that was either pushed or not
+function versionOneState(): Record<string, unknown> {
+  const { players, cart, ...state } = savedState() as {
+    players: { heldItemId: number | null }[];
+    cart: Record<string, unknown>;
+  };
+  const [{ heldItemId, ...player }] = players;
+  const { pushedBy, ...oldCart } = cart;
+  return {
+    ...state,
+    player,
+    heldItemId,
+    cart: { ...oldCart, pushed: pushedBy !== null },
+  };
+}
+
+describe("migrateState", () => {
+  it("leaves a current state as it is", () => {
+    const state = savedState();
+    expect(migrateState(state, SAVE_VERSION)).toBe(state);
+  });
+
+  it("turns version 1's single player into a list", () => {
+    expect(migrateState(versionOneState(), 1)).toEqual(savedState());
+  });
+
+  it("gives up on states it can't bring up to date", () => {
+    expect(migrateState(savedState(), SAVE_VERSION + 1)).toBeNull();
+    expect(migrateState(savedState(), 0)).toBeNull();
+    expect(migrateState("not a state", SAVE_VERSION)).toBeNull();
+  });
+});
+
+describe("snapshots", () => {
+  it("accepts a migrated version 1 snapshot", () => {
+    const snapshot = migrateSnapshot({
+      version: 1,
+      savedAt: 0,
+      state: versionOneState(),
+    });
+    expect(validateSnapshot(snapshot)).toEqual([]);
+  });
+
+  it("lists what's wrong with a broken one", () => {
+    expect(
+      validateSnapshot({ version: SAVE_VERSION, state: { players: [] } })
+    ).toEqual(
+      expect.arrayContaining([
+        "savedAt must be a number",
+        "state.seed must be a number",
+        "state.players must have at least one player",
+      ])
+    );
+  });
+
+  it("saves, loads and clears the run", () => {
+    const state = createInitialState(7);
+    saveSnapshot(state);
+    expect(loadSnapshot()?.state).toEqual({ ...state, events: [] });
+
+    clearSnapshot();
+    expect(loadSnapshot()).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+import { validateDifficulty } from "./difficulty";
+import { validateLayout } from "./layout";
+import { SimulationState } from "./simulation";
+
+// Saved runs. The whole simulation state goes into a versioned JSON
+// snapshot in localStorage, so a refresh or a closed tab can pick up where
+// it left off. Older snapshots are brought up to date by STATE_MIGRATIONS
+// before they're checked.
+
+export const SAVE_VERSION = 2;
+
+export interface SaveSnapshot {
+  version: number;
+  savedAt: number; // Date.now() when it was taken
+  state: SimulationState; // Without the last step's events
+}
+
+// Upgrades of the saved state from one version to the next, keyed by the
+// version they upgrade from. When SimulationState changes shape, bump
+// SAVE_VERSION and add an entry here that fills in or converts the changed
+// fields.
+const STATE_MIGRATIONS: {
+  [version: number]: (
+    state: Record<string, unknown>
+  ) => Record<string, unknown>;
+} = {
+  // Co-op: one player became a list, each with their own held item, and the
+  // cart remembers which of them is pushing it
+  1: ({ player, heldItemId, ...state }) => {
+    const oldCart: Record<string, unknown> = isRecord(state.cart)
+      ? state.cart
+      : {};
+    const { pushed, ...cart } = oldCart;
+    return {
+      ...state,
+      players: [{ ...(isRecord(player) ? player : {}), heldItemId }],
+      cart: { ...cart, pushedBy: pushed ? 0 : null },
+    };
+  },
+};
+
+const STORAGE_KEY = "mini-market-thief.save";
+
+// Seconds between autosaves while playing
+export const AUTOSAVE_INTERVAL = 5;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function createSnapshot(state: SimulationState): SaveSnapshot {
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    state: { ...state, events: [] },
+  };
+}
+
+// Bring a state saved by an older version of the game up to date. Returns
+// null for states from a newer version, or ones too old to have a migration
+// path.
+export function migrateState(
+  state: unknown,
+  version: number
+): Record<string, unknown> | null {
+  if (!isRecord(state)) return null;
+
+  let migrated = state;
+  for (let from = version; from < SAVE_VERSION; from++) {
+    const migrate = STATE_MIGRATIONS[from];
+    if (!migrate) return null;
+    migrated = migrate(migrated);
+  }
+  return version <= SAVE_VERSION ? migrated : null;
+}
+
+// Run the state migrations on a snapshot. Anything that isn't a snapshot at
+// all is left for validateSnapshot() to complain about.
+export function migrateSnapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isNumber(data.version)) return data;
+
+  const state = migrateState(data.state, data.version);
+  return state && { ...data, version: SAVE_VERSION, state };
+}
+
+// Check a parsed, migrated JSON value against the snapshot format. Returns a
+// list of human readable problems, empty when the snapshot can be resumed.
+export function validateSnapshot(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["snapshot must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.version !== SAVE_VERSION) {
+    errors.push(`version must be ${SAVE_VERSION}`);
+  }
+  if (!isNumber(data.savedAt)) {
+    errors.push("savedAt must be a number");
+  }
+
+  errors.push(...validateState(data.state, "state"));
+
+  return errors;
+}
+
+// Check a parsed JSON value against SimulationState, as far as resuming it
+// needs. `path` prefixes each problem, e.g. "state".
+export function validateState(state: unknown, path: string): string[] {
+  if (!isRecord(state)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors = [
+    ...validateLayout(state.layout).map((error) => `${path}.layout: ${error}`),
+    ...validateDifficulty(state.difficulty).map(
+      (error) => `${path}.difficulty: ${error}`
+    ),
+  ];
+
+  const numbers = [
+    "seed",
+    "rngState",
+    "time",
+    "nextItemId",
+    "nextCustomerId",
+    "customerTimer",
+    "score",
+    "stolenItems",
+    "shiftNumber",
+    "shiftStartScore",
+    "itemSpawnTimer",
+  ];
+  for (const key of numbers) {
+    if (!isNumber(state[key])) {
+      errors.push(`${path}.${key} must be a number`);
+    }
+  }
+  for (const key of [
+    "items",
+    "thrownItems",
+    "players",
+    "thieves",
+    "customers",
+  ]) {
+    if (!Array.isArray(state[key])) {
+      errors.push(`${path}.${key} must be an array`);
+    }
+  }
+  for (const key of ["cart", "shelfStock", "shiftRules", "shiftStats"]) {
+    if (!isRecord(state[key])) {
+      errors.push(`${path}.${key} must be an object`);
+    }
+  }
+
+  if (Array.isArray(state.players)) {
+    if (state.players.length === 0) {
+      errors.push(`${path}.players must have at least one player`);
+    }
+    state.players.forEach((player, i) => {
+      if (
+        !isRecord(player) ||
+        !Array.isArray(player.position) ||
+        (player.heldItemId !== null && !isNumber(player.heldItemId))
+      ) {
+        errors.push(`${path}.players[${i}] needs a position and held item`);
+      }
+    });
+  }
+
+  if (Array.isArray(state.thieves)) {
+    state.thieves.forEach((thief, i) => {
+      if (
+        !isRecord(thief) ||
+        !isRecord(thief.archetype) ||
+        typeof thief.mode !== "string" ||
+        !Array.isArray(thief.position) ||
+        !Array.isArray(thief.holdingItems)
+      ) {
+        errors.push(
+          `${path}.thieves[${i}] needs an archetype, mode, position and loot`
+        );
+      }
+    });
+  }
+
+  return errors;
+}
+
+// The saved run, or null if there isn't one or it can't be resumed
+export function loadSnapshot(): SaveSnapshot | null {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const data = migrateSnapshot(JSON.parse(saved));
+      if (validateSnapshot(data).length === 0) {
+        return data as SaveSnapshot;
+      }
+    }
+  } catch (error) {
+    // Storage blocked or corrupt: start a new run
+  }
+  return null;
+}
+
+export function saveSnapshot(state: SimulationState) {
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(createSnapshot(state))
+    );
+  } catch (error) {
+    // Storage blocked or full: the run just can't be resumed later
+  }
+}
+
+export function clearSnapshot() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    // Storage blocked: there's nothing saved to clear
+  }
+}
@@ -0,0 +1,38 @@
+import { isRunning, nextScreen } from "./screens";
+
+describe("nextScreen", () => {
+  it("goes from the title through choosing a mode into the game", () => {
+    expect(nextScreen("title", "newGame")).toBe("modeSelect");
+    expect(nextScreen("modeSelect", "back")).toBe("title");
+    expect(nextScreen("modeSelect", "start")).toBe("playing");
+    expect(nextScreen("title", "continue")).toBe("playing");
+  });
+
+  it("pauses and resumes", () => {
+    expect(nextScreen("playing", "togglePause")).toBe("paused");
+    expect(nextScreen("paused", "togglePause")).toBe("playing");
+    expect(nextScreen("paused", "resume")).toBe("playing");
+    expect(nextScreen("paused", "quit")).toBe("title");
+  });
+
+  it("shows the results once the shift is over", () => {
+    expect(nextScreen("playing", "shiftEnded")).toBe("results");
+    expect(nextScreen("results", "start")).toBe("playing");
+    expect(nextScreen("results", "quit")).toBe("title");
+  });
+
+  it("ignores actions that don't apply", () => {
+    expect(nextScreen("title", "togglePause")).toBe("title");
+    expect(nextScreen("results", "togglePause")).toBe("results");
+    expect(nextScreen("modeSelect", "shiftEnded")).toBe("modeSelect");
+  });
+});
+
+describe("isRunning", () => {
+  it("only runs the simulation while playing", () => {
+    expect(isRunning("playing")).toBe(true);
+    expect(isRunning("paused")).toBe(false);
+    expect(isRunning("title")).toBe(false);
+    expect(isRunning("results")).toBe(false);
+  });
+});
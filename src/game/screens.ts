@@ -0,0 +1,45 @@
+// The screens of the local game and how the player moves between them. The
+// store stays on screen behind every one of them, but the simulation only
+// runs while playing.
+
+export type Screen =
+  | "title"
+  | "modeSelect" // Solo, co-op or editing the store first
+  | "playing"
+  | "paused"
+  | "results"; // The shift is over
+
+export type ScreenAction =
+  | "newGame" // From the title, on to choosing a mode
+  | "continue" // Back into a saved run
+  | "start" // A mode was picked, or a shift retried or moved on from
+  | "back"
+  | "togglePause" // Escape or a gamepad's Start
+  | "resume"
+  | "shiftEnded"
+  | "quit"; // To the title
+
+// Actions missing for a screen don't apply there and leave it as it is
+const TRANSITIONS: {
+  [screen in Screen]: { [action in ScreenAction]?: Screen };
+} = {
+  title: { newGame: "modeSelect", continue: "playing" },
+  modeSelect: { start: "playing", back: "title" },
+  playing: { togglePause: "paused", shiftEnded: "results", quit: "title" },
+  paused: {
+    togglePause: "playing",
+    resume: "playing",
+    start: "playing",
+    quit: "title",
+  },
+  results: { start: "playing", quit: "title" },
+};
+
+export function nextScreen(screen: Screen, action: ScreenAction): Screen {
+  return TRANSITIONS[screen][action] ?? screen;
+}
+
+// Whether the simulation is stepped on this screen
+export function isRunning(screen: Screen): boolean {
+  return screen === "playing";
+}
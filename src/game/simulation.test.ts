@@ -0,0 +1,1111 @@
+import { CART_CONSTANTS } from "./cart";
+import { CUSTOMER_CONSTANTS } from "./customers";
+import {
+  DIFFICULTY_CURVES,
+  DifficultyCurve,
+  getDifficultyLevel,
+} from "./difficulty";
+import { ITEM_TYPES, Item, PRODUCT_CATEGORIES, ProductCategory } from "./items";
+import { DEFAULT_LAYOUT, ShelfDefinition, StoreLayout } from "./layout";
+import { getNavGrid, isWalkable } from "./navigation";
+import {
+  NO_INPUTS,
+  SIMULATION_CONSTANTS,
+  SimulationInputs,
+  SimulationState,
+  TICK,
+  createInitialState,
+  getCurrentDifficulty,
+  getQueue,
+  getShelfFill,
+  getStockCount,
+  getUndercoverSuspicion,
+  retryShift,
+  startNextShift,
+  step,
+} from "./simulation";
+import {
+  Vec3,
+  getDoorPoints,
+  getFootprintRect,
+  getStoreOffset,
+} from "./store";
+import { THIEF_ARCHETYPES, ThiefArchetype } from "./thieves";
+import { THROW_CONSTANTS } from "./throwing";
+import { canSee } from "./vision";
+
+const PRESS_INTERACT: SimulationInputs = { ...NO_INPUTS, interact: true };
+const AIM: SimulationInputs = { ...NO_INPUTS, aim: true };
+
+// An empty 10x10 store with just the given shelves
+function openStore(shelves: ShelfDefinition[] = []): StoreLayout {
+  return {
+    version: 1,
+    name: "Test shop",
+    floor: { width: 10, depth: 10 },
+    walls: [{ side: "front", from: 0, to: 10 }],
+    doors: [{ side: "front", index: 5 }],
+    windows: [],
+    shelves,
+    fixtures: [],
+    spawnZones: [{ x: -3, z: -3, width: 2, depth: 2 }],
+  };
+}
+
+function shelfAt(x: number, z: number): ShelfDefinition {
+  return { id: `shelf-${x}-${z}`, kind: "shelf-boxes", x, z, rotation: 0 };
+}
+
+// A loose product of the category, with an id clear of the store's own
+function product(id: number, category: ProductCategory): Item {
+  const type = ITEM_TYPES.find((other) => other.category === category);
+  if (!type) throw new Error(`No product is ${category}`);
+  return { id: 100 + id, type, position: [0, 0.2, 0], onShelf: false };
+}
+
+// A store with nobody else in it and the player holding the first item,
+// stood at a shelf it belongs on
+function holdingItemAtShelf(seed: number) {
+  const state = createInitialState(seed, DEFAULT_LAYOUT, []);
+  const [item] = state.items;
+  const kinds = PRODUCT_CATEGORIES[item.type.category].shelves;
+  const shelf = state.layout.shelves.find(({ kind }) => kinds.includes(kind));
+  if (!shelf) throw new Error(`No shelf for ${item.type.name}`);
+
+  const [player] = state.players;
+  state.players = [
+    {
+      ...player,
+      heldItemId: item.id,
+      position: [shelf.x, player.position[1], shelf.z],
+    },
+  ];
+  return { state, item, shelf };
+}
+
+describe("shelving", () => {
+  it("puts the held item on the shelf and scores it", () => {
+    const { state, item, shelf } = holdingItemAtShelf(1);
+    const fill = getShelfFill(state, shelf.id);
+
+    const next = step(state, [PRESS_INTERACT], TICK);
+
+    expect(next.score).toBe(SIMULATION_CONSTANTS.shelveScore);
+    expect(next.shiftStats.itemsShelved).toBe(1);
+    expect(next.players[0].heldItemId).toBeNull();
+    expect(next.items.some(({ id }) => id === item.id)).toBe(false);
+    expect(getShelfFill(next, shelf.id)).toBeGreaterThan(fill);
+    expect(next.events).toContainEqual({
+      type: "itemShelved",
+      item,
+      shelf,
+      points: SIMULATION_CONSTANTS.shelveScore,
+    });
+
+    // The state it was stepped from is left as it was
+    expect(state.score).toBe(0);
+    expect(state.players[0].heldItemId).toBe(item.id);
+  });
+
+  it("scores a bonus for restocking a shelf that was running low", () => {
+    const { state, shelf } = holdingItemAtShelf(1);
+    state.shelfStock = { ...state.shelfStock, [shelf.id]: {} };
+
+    const next = step(state, [PRESS_INTERACT], TICK);
+
+    const points =
+      SIMULATION_CONSTANTS.shelveScore + SIMULATION_CONSTANTS.lowStockBonus;
+    expect(next.score).toBe(points);
+    expect(next.events).toContainEqual(
+      expect.objectContaining({ type: "itemShelved", points })
+    );
+  });
+  it("won't shelve an item on a fixture for another category", () => {
+    const freezer: ShelfDefinition = { ...shelfAt(-2, 0), kind: "freezer" };
+    const boxes = shelfAt(2, 0);
+    const state = createInitialState(1, openStore([freezer, boxes]), []);
+    const item = product(0, "dry");
+    state.items = [item];
+    state.shelfStock = {};
+    const [player] = state.players;
+    state.players = [
+      {
+        ...player,
+        heldItemId: item.id,
+        position: [-2, player.position[1], 0.6],
+      },
+    ];
+
+    const refused = step(state, [PRESS_INTERACT], TICK);
+    expect(refused.score).toBe(0);
+    expect(refused.shiftStats.itemsShelved).toBe(0);
+    expect(refused.players[0].heldItemId).toBe(item.id);
+    expect(getShelfFill(refused, freezer.id)).toBe(0);
+    expect(refused.events).toContainEqual({
+      type: "wrongShelf",
+      item,
+      shelf: freezer,
+    });
+
+    refused.players[0].position = [2, player.position[1], 0.6];
+    const shelved = step(refused, [PRESS_INTERACT], TICK);
+    expect(shelved.players[0].heldItemId).toBeNull();
+    expect(shelved.shiftStats.itemsShelved).toBe(1);
+    expect(shelved.score).toBeGreaterThan(0);
+    expect(getShelfFill(shelved, boxes.id)).toBeGreaterThan(0);
+  });
+});
+
+describe("thieves", () => {
+  // A thief steered in versus mode, stood on the first item with the
+  // player well out of reach
+  function thiefOnItem(): SimulationState {
+    const state = createInitialState(1, DEFAULT_LAYOUT, [
+      THIEF_ARCHETYPES.snatcher,
+    ]);
+    const [item] = state.items;
+    const [x, , z] = item.position;
+    state.thieves = state.thieves.map((thief) => ({
+      ...thief,
+      mode: "searching",
+      position: [x, thief.position[1], z],
+    }));
+    state.players = state.players.map((player) => ({
+      ...player,
+      position: [x + 3, player.position[1], z],
+    }));
+    return state;
+  }
+
+  it("steals an item in reach and is caught by running into the player", () => {
+    const state = thiefOnItem();
+    const [item] = state.items;
+    const [thief] = state.thieves;
+
+    const robbed = step(state, [NO_INPUTS], TICK, {
+      [thief.id]: PRESS_INTERACT,
+    });
+
+    expect(robbed.stolenItems).toBe(1);
+    expect(robbed.thieves[0].holdingItems).toEqual([item]);
+    expect(robbed.items.some(({ id }) => id === item.id)).toBe(false);
+    expect(robbed.events).toContainEqual({
+      type: "itemStolen",
+      item,
+      thiefId: thief.id,
+      shelfId: null,
+    });
+
+    robbed.players = [
+      { ...robbed.players[0], position: robbed.thieves[0].position },
+    ];
+    const caught = step(robbed, [NO_INPUTS], TICK);
+
+    expect(caught.stolenItems).toBe(0);
+    expect(caught.shiftStats.thievesCaught).toBe(1);
+    expect(caught.thieves[0].mode).toBe("fleeing");
+    expect(caught.thieves[0].holdingItems).toEqual([]);
+    expect(caught.items.some(({ id }) => id === item.id)).toBe(true);
+    expect(caught.events).toContainEqual(
+      expect.objectContaining({ type: "thiefCaught", thiefId: thief.id })
+    );
+  });
+
+  // A store with nobody minding it, on a curve that sends thieves in after
+  // a second and lets `maxActive` of them in at once
+  function unattended(archetypes: ThiefArchetype[], maxActive = 4) {
+    const [first] = DIFFICULTY_CURVES.relaxed.curve;
+    const difficulty: DifficultyCurve = {
+      ...DIFFICULTY_CURVES.relaxed,
+      curve: [{ ...first, thiefWaitTime: 1, maxActiveThieves: maxActive }],
+    };
+    const state = createInitialState(1, DEFAULT_LAYOUT, archetypes, difficulty);
+    const start = state.players[0].position;
+    state.players = [];
+    return { state, start };
+  }
+
+  // The same store with the thieves already inside, each stood at the
+  // given spot
+  function searchingFrom(archetypes: ThiefArchetype[], spots: Vec3[]) {
+    const { state } = unattended(archetypes);
+    state.thieves = state.thieves.map((thief, index) => ({
+      ...thief,
+      mode: "searching",
+      position: [spots[index][0], thief.position[1], spots[index][2]],
+    }));
+    return state;
+  }
+
+  it("come in one after another, no more at once than allowed", () => {
+    const archetypes = [THIEF_ARCHETYPES.snatcher, THIEF_ARCHETYPES.hoarder];
+
+    let state = unattended(archetypes).state;
+    const entered: { [thiefId: number]: number } = {};
+    for (let tick = 0; tick < 8 / TICK; tick++) {
+      state = step(state, [], TICK);
+      for (const event of state.events) {
+        if (event.type === "thiefEntered") entered[event.thiefId] = state.time;
+      }
+    }
+    expect(entered[0]).toBeCloseTo(1, 1);
+    expect(entered[1]).toBeCloseTo(
+      1 + SIMULATION_CONSTANTS.thiefEntryStagger,
+      1
+    );
+
+    state = unattended(archetypes, 1).state;
+    for (let tick = 0; tick < 20 / TICK; tick++) {
+      state = step(state, [], TICK);
+      const inside = state.thieves.filter(({ mode }) => mode !== "waiting");
+      expect(inside.length).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("walk at their archetype's speed", () => {
+    const { start } = unattended([]);
+    const archetypes = [THIEF_ARCHETYPES.dasher, THIEF_ARCHETYPES.hoarder];
+    const state = searchingFrom(archetypes, [start, start]);
+
+    const next = step(state, [], TICK);
+    const { thiefSpeed } = getCurrentDifficulty(state);
+    next.thieves.forEach((thief, index) => {
+      const moved = Math.hypot(
+        thief.position[0] - start[0],
+        thief.position[2] - start[2]
+      );
+      expect(moved).toBeCloseTo(archetypes[index].speed * thiefSpeed * TICK);
+    });
+  });
+
+  it("leave once they've stolen as much as their greed allows", () => {
+    const { state: store } = unattended([]);
+    const [first, second] = store.items;
+    let state = searchingFrom(
+      [THIEF_ARCHETYPES.snatcher, THIEF_ARCHETYPES.hoarder],
+      [first.position, second.position]
+    );
+    state = step(step(state, [], TICK), [], TICK);
+
+    const [snatcher, hoarder] = state.thieves;
+    expect(snatcher.holdingItems).toEqual([first]);
+    expect(snatcher.mode).toBe("escaping");
+    expect(hoarder.holdingItems).toEqual([second]);
+    expect(hoarder.mode).toBe("searching");
+  });
+
+  it("go after different things rather than the same one", () => {
+    const { start } = unattended([]);
+    const state = searchingFrom(
+      [THIEF_ARCHETYPES.snatcher, THIEF_ARCHETYPES.snatcher],
+      [start, start]
+    );
+
+    const [first, second] = step(state, [], TICK).thieves.map(
+      ({ targetItemId, targetShelfId, targetCart }) => ({
+        targetItemId,
+        targetShelfId,
+        targetCart,
+      })
+    );
+    expect(first).not.toEqual(second);
+    expect(
+      first.targetItemId !== null || first.targetShelfId !== null
+    ).toBe(true);
+  });
+
+  it("only counts undercover thieves towards the store's wariness", () => {
+    const state = thiefOnItem();
+    expect(getUndercoverSuspicion(state)).toBe(0);
+
+    state.thieves[0].suspicion = 0.4;
+    expect(getUndercoverSuspicion(state)).toBe(0.4);
+
+    state.thieves[0].holdingItems = [state.items[0]];
+    expect(getUndercoverSuspicion(state)).toBe(0);
+  });
+});
+
+describe("stealth", () => {
+  const BEHIND_ROW: Vec3 = [0, 0.15, 1.5];
+  const IN_VIEW: Vec3 = [2.5, 0.15, -0.5];
+
+  // A row of empty shelves across the store, a snatcher stood at `spot`
+  // with the given suspicion, and the player in front of the row looking
+  // across it, or away from it
+  function watchedStore(spot: Vec3, suspicion: number, lookingAway = false) {
+    const row = [-1.4, -0.7, 0, 0.7, 1.4].map((x) => shelfAt(x, 0));
+    const state = createInitialState(1, openStore(row), [
+      THIEF_ARCHETYPES.snatcher,
+    ]);
+    state.items = [];
+    state.shelfStock = {};
+    state.customerTimer = Infinity;
+    state.players = [
+      {
+        ...state.players[0],
+        position: [0, 0.15, -3],
+        rotation: lookingAway ? Math.PI : 0,
+      },
+    ];
+    state.thieves = state.thieves.map((thief) => ({
+      ...thief,
+      mode: "searching",
+      position: spot,
+      suspicion,
+    }));
+    return state;
+  }
+
+  it("ducks out of sight once spotted", () => {
+    const state = watchedStore(IN_VIEW, 0.6);
+
+    const next = step(state, [NO_INPUTS], TICK);
+    const [thief] = next.thieves;
+    expect(next.events).toContainEqual({ type: "thiefSpotted", thiefId: 0 });
+    expect(thief.mode).toBe("lurking");
+    expect(
+      canSee(next.layout, next.players[0], thief.targetPosition)
+    ).toBe(false);
+  });
+
+  it("waits where it is while the player watches its target", () => {
+    const state = watchedStore(BEHIND_ROW, 0);
+    state.items = [{ ...product(0, "dry"), position: [3, 0.2, -1.5] }];
+
+    const next = step(step(state, [NO_INPUTS], TICK), [NO_INPUTS], TICK);
+    const [thief] = next.thieves;
+    expect(thief.suspicion).toBe(0);
+    expect(thief.mode).toBe("lurking");
+    expect(thief.targetPosition).toEqual(thief.position);
+  });
+
+  it("comes back out to search once it has waited", () => {
+    const state = watchedStore(BEHIND_ROW, 0, true);
+    state.thieves[0] = { ...state.thieves[0], mode: "lurking", lurkTimer: 0 };
+
+    const [thief] = step(state, [NO_INPUTS], TICK).thieves;
+    expect(thief.mode).toBe("searching");
+    expect(thief.lurkCooldown).toBe(SIMULATION_CONSTANTS.lurkCooldown);
+  });
+
+  it("gives up and heads for the door once suspicion peaks", () => {
+    for (const mode of ["searching", "lurking"] as const) {
+      const state = watchedStore(IN_VIEW, 1);
+      state.items = [{ ...product(0, "dry"), position: [3, 0.2, -1.5] }];
+      state.thieves[0] = { ...state.thieves[0], mode, lurkTimer: 1 };
+
+      const next = step(state, [NO_INPUTS], TICK);
+      const [thief] = next.thieves;
+      expect(thief.mode).toBe("escaping");
+      expect(thief.targetItemId).toBeNull();
+      expect(next.events).toContainEqual({ type: "thiefSpooked", thiefId: 0 });
+    }
+  });
+
+  it("goes for items out of the player's sight over closer ones", () => {
+    const spot: Vec3 = [3, 0.15, 0];
+    const visible: Item = { ...product(0, "dry"), position: [3, 0.2, -1.5] };
+    const hidden: Item = { ...product(1, "dry"), position: BEHIND_ROW };
+
+    const watched = watchedStore(spot, 0);
+    watched.items = [visible, hidden];
+    expect(step(watched, [NO_INPUTS], TICK).thieves[0].targetItemId).toBe(
+      hidden.id
+    );
+
+    const unwatched = watchedStore(spot, 0, true);
+    unwatched.items = [visible, hidden];
+    expect(step(unwatched, [NO_INPUTS], TICK).thieves[0].targetItemId).toBe(
+      visible.id
+    );
+  });
+});
+
+describe("dropping and throwing", () => {
+  // The player holding the first item at (x, 0), facing +x
+  function holdingItemAt(x: number, layout = openStore()): SimulationState {
+    const state = createInitialState(1, layout, []);
+    const [player] = state.players;
+    state.players = [
+      {
+        ...player,
+        heldItemId: state.items[0].id,
+        position: [x, player.position[1], 0],
+        rotation: Math.PI / 2,
+      },
+    ];
+    return state;
+  }
+
+  // Hold the throw key for some ticks, then let go
+  function throwAfter(state: SimulationState, ticks: number): SimulationState {
+    let next = state;
+    for (let tick = 0; tick < ticks; tick++) {
+      next = step(next, [AIM], TICK);
+    }
+    return step(next, [NO_INPUTS], TICK);
+  }
+
+  // Step until nothing is in the air any more, collecting the events. Any
+  // thief stands still meanwhile.
+  function land(state: SimulationState) {
+    const [{ item: thrown }] = state.thrownItems;
+    const stay = Object.fromEntries(
+      state.thieves.map((thief) => [thief.id, NO_INPUTS])
+    );
+    let next = state;
+    const events = [];
+    for (let tick = 0; next.thrownItems.length > 0 && tick < 600; tick++) {
+      next = step(next, [NO_INPUTS], TICK, stay);
+      events.push(...next.events);
+    }
+    const item = next.items.find(({ id }) => id === thrown.id);
+    if (!item) throw new Error("The thrown item never landed");
+    return { state: next, item, events };
+  }
+
+  it("drops the held item just in front of the player", () => {
+    const state = holdingItemAt(0);
+    const next = step(state, [{ ...NO_INPUTS, drop: true }], TICK);
+
+    const item = next.items[0];
+    expect(next.players[0].heldItemId).toBeNull();
+    expect(item.position[0]).toBeCloseTo(THROW_CONSTANTS.dropDistance);
+    expect(item.position[1]).toBe(SIMULATION_CONSTANTS.itemHeight);
+    expect(item.position[2]).toBeCloseTo(0);
+    expect(next.events).toContainEqual({ type: "itemDropped", item });
+  });
+
+  it("drops it at the player's feet with a shelf in the way", () => {
+    const state = holdingItemAt(-0.6, openStore([shelfAt(0, 0)]));
+    const next = step(state, [{ ...NO_INPUTS, drop: true }], TICK);
+    expect(next.items[0].position[0]).toBeCloseTo(-0.6);
+  });
+
+  it("charges while the key is held and throws on release", () => {
+    const state = holdingItemAt(-4);
+    let aiming = state;
+    for (let tick = 0; tick < 90; tick++) {
+      aiming = step(aiming, [AIM], TICK);
+    }
+    expect(aiming.players[0].throwCharge).toBe(THROW_CONSTANTS.chargeTime);
+    expect(aiming.items).toContainEqual(state.items[0]);
+
+    const thrown = step(aiming, [NO_INPUTS], TICK);
+    expect(thrown.players[0].heldItemId).toBeNull();
+    expect(thrown.players[0].throwCharge).toBe(0);
+    expect(thrown.items.some(({ id }) => id === state.items[0].id)).toBe(false);
+    expect(thrown.thrownItems).toHaveLength(1);
+    expect(thrown.events).toContainEqual(
+      expect.objectContaining({ type: "itemThrown" })
+    );
+  });
+
+  it("flies further the longer it was charged and lands on the floor", () => {
+    const short = land(throwAfter(holdingItemAt(-4), 1));
+    const long = land(throwAfter(holdingItemAt(-4), 60));
+
+    expect(short.item.position[0]).toBeGreaterThan(-4);
+    expect(long.item.position[0]).toBeGreaterThan(short.item.position[0] + 2);
+    expect(long.item.position[1]).toBe(SIMULATION_CONSTANTS.itemHeight);
+    expect(long.item.position[2]).toBeCloseTo(0);
+    expect(long.events).toContainEqual({ type: "itemLanded", item: long.item });
+  });
+
+  it("bounces back off walls", () => {
+    const { item } = land(throwAfter(holdingItemAt(3.5), 60));
+    const bounds = getStoreOffset(openStore());
+    expect(item.position[0]).toBeLessThan(bounds.x);
+  });
+
+  it("bounces back off shelves it hits below the top", () => {
+    const shelf = shelfAt(0, 0);
+    let flying = throwAfter(holdingItemAt(-1.5, openStore([shelf])), 15);
+    while (flying.thrownItems[0]?.velocity[0] > 0) {
+      flying = step(flying, [NO_INPUTS], TICK);
+    }
+
+    const [thrown] = flying.thrownItems;
+    expect(thrown.velocity[0]).toBeLessThan(0);
+    expect(thrown.item.position[0]).toBeLessThan(getFootprintRect(shelf).minX);
+    expect(land(flying).item.position[0]).toBeLessThan(
+      getFootprintRect(shelf).minX
+    );
+  });
+
+  it("lands somewhere walkable when it comes down on a shelf", () => {
+    const layout = openStore([shelfAt(0, 0)]);
+    const state = createInitialState(1, layout, []);
+    const [item, ...rest] = state.items;
+    state.items = rest;
+    state.thrownItems = [
+      {
+        item: { ...item, position: [0, 2, 0] },
+        velocity: [0, 0, 0],
+        flightTime: THROW_CONSTANTS.maxFlightTime,
+      },
+    ];
+
+    const next = step(state, [NO_INPUTS], TICK);
+    const landed = next.items.find(({ id }) => id === item.id);
+    expect(next.thrownItems).toEqual([]);
+    expect(landed).toBeDefined();
+    const [x, , z] = landed?.position ?? [0, 0, 0];
+    expect(isWalkable(getNavGrid(layout), x, z)).toBe(true);
+  });
+
+  it("stuns the thief it hits, who stands still until it wears off", () => {
+    const state = holdingItemAt(-4);
+    state.thieves = createInitialState(1, openStore(), [
+      THIEF_ARCHETYPES.snatcher,
+    ]).thieves.map((thief) => ({
+      ...thief,
+      mode: "searching",
+      position: [-3, thief.position[1], 0],
+    }));
+
+    const { state: hit, events } = land(throwAfter(state, 1));
+    const [thief] = hit.thieves;
+    expect(events).toContainEqual({ type: "thiefStunned", thiefId: thief.id });
+    expect(thief.stunTimer).toBeGreaterThan(0);
+    expect(thief.stunTimer).toBeLessThanOrEqual(THROW_CONSTANTS.stunTime);
+
+    const later = step(hit, [NO_INPUTS], 1);
+    expect(later.thieves[0].position).toEqual(thief.position);
+    expect(later.thieves[0].stunTimer).toBeCloseTo(thief.stunTimer - 1);
+  });
+});
+
+describe("cart", () => {
+  const PRESS_CART: SimulationInputs = { ...NO_INPUTS, cart: true };
+
+  // The player at (x, 0) pushing the cart with these items towards +x, in
+  // an empty store unless given another
+  function pushingCart(
+    x: number,
+    items: Item[],
+    layout = openStore()
+  ): SimulationState {
+    const state = createInitialState(1, layout, []);
+    const [player] = state.players;
+    state.players = [
+      {
+        ...player,
+        position: [x, player.position[1], 0],
+        rotation: Math.PI / 2,
+      },
+    ];
+    state.cart = {
+      position: [x + CART_CONSTANTS.offset, player.position[1], 0],
+      rotation: Math.PI / 2,
+      items,
+      pushedBy: 0,
+    };
+    return state;
+  }
+
+  // The same, but with the cart left standing and the player holding the
+  // store's first item
+  function besideCart(items: Item[]): SimulationState {
+    const state = pushingCart(0, items);
+    state.cart = { ...state.cart, pushedBy: null };
+    state.players = [{ ...state.players[0], heldItemId: state.items[0].id }];
+    return state;
+  }
+
+  it("takes hold of the cart, putting the held item in it", () => {
+    const state = besideCart([]);
+    const [item] = state.items;
+
+    const next = step(state, [PRESS_CART], TICK);
+    expect(next.cart.pushedBy).toBe(0);
+    expect(next.cart.items).toEqual([item]);
+    expect(next.players[0].heldItemId).toBeNull();
+    expect(next.items.some(({ id }) => id === item.id)).toBe(false);
+
+    expect(step(next, [PRESS_CART], TICK).cart.pushedBy).toBeNull();
+  });
+
+  it("won't take hold of a full cart with something in hand", () => {
+    const full = Array.from({ length: CART_CONSTANTS.capacity }, (_, id) =>
+      product(id, "dry")
+    );
+    const state = besideCart(full);
+
+    const next = step(state, [PRESS_CART], TICK);
+    expect(next.cart.pushedBy).toBeNull();
+    expect(next.cart.items).toEqual(full);
+    expect(next.players[0].heldItemId).toBe(state.items[0].id);
+    expect(next.events).toContainEqual({
+      type: "cartFull",
+      item: state.items[0],
+    });
+  });
+
+  it("slows down in proportion to its load", () => {
+    // Pushed straight ahead for half a second
+    const distance = (load: number) => {
+      const items = Array.from({ length: load }, (_, id) => product(id, "dry"));
+      let state = pushingCart(-2, items);
+      for (let tick = 0; tick < 30; tick++) {
+        state = step(state, [{ ...NO_INPUTS, move: [1, 0] }], TICK);
+      }
+      return state.players[0].position[0] + 2;
+    };
+
+    const empty = distance(0);
+    expect(empty).toBeCloseTo(SIMULATION_CONSTANTS.playerSpeed * 30 * TICK);
+    expect(distance(CART_CONSTANTS.capacity) / empty).toBeCloseTo(
+      1 - CART_CONSTANTS.fullLoadSlowdown
+    );
+    expect(distance(CART_CONSTANTS.capacity / 2) / empty).toBeCloseTo(
+      1 - CART_CONSTANTS.fullLoadSlowdown / 2
+    );
+  });
+
+  it("unloads onto the shelf beside it one matching item at a time", () => {
+    const shelf = shelfAt(0, 0);
+    const cereal = [product(0, "dry"), product(1, "dry")];
+    const frozen = product(2, "chilled");
+    const state = pushingCart(
+      -1.2,
+      [cereal[0], frozen, cereal[1]],
+      openStore([shelf])
+    );
+    state.cart = { ...state.cart, position: [-0.6, 0.15, 0] };
+
+    const once = step(state, [PRESS_INTERACT], TICK);
+    expect(once.cart.items).toEqual([frozen, cereal[1]]);
+    expect(once.score).toBe(SIMULATION_CONSTANTS.shelveScore);
+    expect(once.events).toContainEqual(
+      expect.objectContaining({ type: "itemShelved", item: cereal[0] })
+    );
+
+    const twice = step(once, [PRESS_INTERACT], TICK);
+    expect(twice.cart.items).toEqual([frozen]);
+
+    // Nothing left that goes here
+    const thrice = step(twice, [PRESS_INTERACT], TICK);
+    expect(thrice.cart.items).toEqual([frozen]);
+    expect(thrice.events).toContainEqual(
+      expect.objectContaining({ type: "wrongShelf", item: frozen })
+    );
+  });
+
+  it("can be robbed by a thief while nobody is pushing it", () => {
+    const items = [product(0, "dry"), product(1, "dry")];
+    const state = pushingCart(-2, items);
+    state.items = [];
+    state.thieves = createInitialState(1, openStore(), [
+      THIEF_ARCHETYPES.snatcher,
+    ]).thieves.map((thief) => ({
+      ...thief,
+      mode: "searching",
+      position: state.cart.position,
+    }));
+    const [thief] = state.thieves;
+    const snatch = { [thief.id]: PRESS_INTERACT };
+
+    const pushed = step(state, [NO_INPUTS], TICK, snatch);
+    expect(pushed.cart.items).toEqual(items);
+    expect(pushed.stolenItems).toBe(0);
+
+    state.cart = { ...state.cart, pushedBy: null };
+    const robbed = step(state, [NO_INPUTS], TICK, snatch);
+    expect(robbed.cart.items).toHaveLength(1);
+    expect(robbed.stolenItems).toBe(1);
+    expect(robbed.thieves[0].holdingItems).toHaveLength(1);
+    expect(robbed.events).toContainEqual(
+      expect.objectContaining({ type: "itemStolen", shelfId: null })
+    );
+  });
+});
+
+describe("customers", () => {
+  // Let the first customer do their shopping while the player stands still.
+  // Returns the state once they've joined the queue, and the events so far.
+  function shopUntilQueueing(seed: number) {
+    let state = createInitialState(seed, DEFAULT_LAYOUT, []);
+    const events = [];
+    for (let tick = 0; getQueue(state).length === 0 && tick < 6000; tick++) {
+      state = step(state, [NO_INPUTS], TICK);
+      events.push(...state.events);
+    }
+    const [customer] = getQueue(state);
+    if (!customer) throw new Error("Nobody queued");
+    return { state, customer, events };
+  }
+
+  it("take products off the shelves and queue at the register", () => {
+    const start = createInitialState(1, DEFAULT_LAYOUT, []);
+    const { state, customer, events } = shopUntilQueueing(1);
+
+    const taken = events.filter(
+      (event) =>
+        event.type === "stockTaken" && event.customerId === customer.id
+    );
+    expect(events).toContainEqual({
+      type: "customerEntered",
+      customerId: customer.id,
+    });
+    expect(customer.basket.length).toBeGreaterThan(0);
+    expect(taken).toHaveLength(customer.basket.length);
+    expect(customer.shoppingList).toBe(0);
+    expect(customer.queuedAt).toBe(state.time);
+
+    const stock = (shelves: SimulationState["shelfStock"]) =>
+      Object.values(shelves).reduce(
+        (sum, shelf) => sum + getStockCount(shelf),
+        0
+      );
+    expect(stock(state.shelfStock)).toBe(
+      stock(start.shelfStock) - customer.basket.length
+    );
+  });
+
+  it("pay for their shopping once the player has scanned all of it", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    const register = DEFAULT_LAYOUT.fixtures.find(
+      ({ kind }) => kind === "cash-register"
+    );
+    if (!register) throw new Error("No register");
+    // Walked up to the till, with the player behind it
+    state.customers = state.customers.map((other) =>
+      other.id === customer.id
+        ? { ...other, position: other.targetPosition }
+        : other
+    );
+    state.players = [
+      {
+        ...state.players[0],
+        position: [register.x - 0.5, state.players[0].position[1], register.z],
+      },
+    ];
+
+    let next = state;
+    for (let scan = 0; scan < customer.basket.length; scan++) {
+      expect(getQueue(next)[0]?.id).toBe(customer.id);
+      next = step(next, [PRESS_INTERACT], TICK);
+      expect(next.events).toContainEqual({
+        type: "itemScanned",
+        customerId: customer.id,
+        product: customer.basket[scan],
+      });
+    }
+
+    const revenue = customer.basket.reduce((sum, { price }) => sum + price, 0);
+    expect(next.score).toBe(state.score + revenue);
+    expect(next.shiftStats.customersServed).toBe(1);
+    expect(next.customers.find(({ id }) => id === customer.id)?.mode).toBe(
+      "leaving"
+    );
+    expect(next.events).toContainEqual({
+      type: "customerPaid",
+      customerId: customer.id,
+      products: customer.basket,
+      revenue,
+    });
+  });
+
+  it("aren't scanned from away from the register", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    state.customers = state.customers.map((other) =>
+      other.id === customer.id
+        ? { ...other, position: other.targetPosition }
+        : other
+    );
+
+    const next = step(state, [PRESS_INTERACT], TICK);
+    expect(next.customers.find(({ id }) => id === customer.id)?.scanned).toBe(
+      0
+    );
+  });
+
+  it("cost points and their shopping when wrongly caught", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    state.score = 100;
+    state.players = [{ ...state.players[0], position: customer.position }];
+
+    const next = step(state, [{ ...NO_INPUTS, catch: true }], TICK);
+    const accused = next.customers.find(({ id }) => id === customer.id);
+    expect(accused?.mode).toBe("leaving");
+    expect(accused?.basket).toEqual([]);
+    expect(next.score).toBe(100 - CUSTOMER_CONSTANTS.accusationPenalty);
+    expect(next.items.length).toBe(state.items.length + customer.basket.length);
+    expect(next.events).toContainEqual({
+      type: "customerAccused",
+      customerId: customer.id,
+      penalty: CUSTOMER_CONSTANTS.accusationPenalty,
+    });
+  });
+
+  it("are only accused once, however often catch is pressed", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    state.score = 100;
+    state.players = [{ ...state.players[0], position: customer.position }];
+    const catching = { ...NO_INPUTS, catch: true };
+
+    const once = step(state, [catching], TICK);
+    const accused = once.customers.find(({ id }) => id === customer.id);
+    if (!accused) throw new Error("The customer left already");
+    once.players = [{ ...once.players[0], position: accused.position }];
+
+    const twice = step(once, [catching], TICK);
+    expect(twice.score).toBe(100 - CUSTOMER_CONSTANTS.accusationPenalty);
+    expect(twice.items).toHaveLength(once.items.length);
+    expect(twice.events).not.toContainEqual(
+      expect.objectContaining({ type: "customerAccused" })
+    );
+  });
+
+  it("say which door they left by", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    const door = getDoorPoints(state.layout, state.layout.doors[0]);
+    state.customers = state.customers.map((other) =>
+      other.id === customer.id
+        ? { ...other, mode: "leaving", position: door.outside }
+        : other
+    );
+
+    const next = step(state, [NO_INPUTS], TICK);
+    expect(next.customers.some(({ id }) => id === customer.id)).toBe(false);
+    expect(next.events).toContainEqual({
+      type: "customerLeft",
+      customerId: customer.id,
+      doorIndex: customer.doorIndex,
+    });
+  });
+
+  it("leave angry after waiting too long, dropping their shopping", () => {
+    const { state, customer } = shopUntilQueueing(1);
+    state.score = 100;
+    state.time = customer.queuedAt + CUSTOMER_CONSTANTS.patience;
+
+    const next = step(state, [NO_INPUTS], TICK);
+    const left = next.customers.find(({ id }) => id === customer.id);
+    expect(left?.mode).toBe("leaving");
+    expect(left?.basket).toEqual([]);
+    expect(next.score).toBe(100 - CUSTOMER_CONSTANTS.angryPenalty);
+    expect(next.shiftStats.customersLost).toBe(1);
+    expect(next.items.length).toBe(state.items.length + customer.basket.length);
+    expect(next.events).toContainEqual({
+      type: "customerAngry",
+      customerId: customer.id,
+      penalty: CUSTOMER_CONSTANTS.angryPenalty,
+    });
+  });
+});
+
+describe("shifts", () => {
+  it("are won by meeting the restock quota", () => {
+    const { state } = holdingItemAtShelf(1);
+    state.shiftStats.itemsShelved = state.shiftRules.restockQuota - 1;
+
+    const next = step(state, [PRESS_INTERACT], TICK);
+    expect(next.outcome).toBe("quotaMet");
+    expect(next.events).toContainEqual({
+      type: "shiftEnded",
+      outcome: "quotaMet",
+    });
+  });
+
+  it("are lost once too much has been stolen", () => {
+    const state = createInitialState(1, DEFAULT_LAYOUT, []);
+    state.stolenItems = state.shiftRules.stolenLimit;
+    expect(step(state, [NO_INPUTS], TICK).outcome).toBe("tooManyStolen");
+  });
+
+  it("are lost when time runs out, with nothing moving after", () => {
+    const state = createInitialState(1, DEFAULT_LAYOUT, []);
+    state.time = state.shiftRules.duration - TICK / 2;
+
+    const over = step(state, [NO_INPUTS], TICK);
+    expect(over.outcome).toBe("outOfTime");
+
+    const after = step(over, [{ ...NO_INPUTS, move: [1, 0] }], TICK);
+    expect(after.time).toBe(over.time);
+    expect(after.players).toBe(over.players);
+    expect(after.events).toEqual([]);
+  });
+
+  it("count meeting the quota as a win, whatever else went wrong", () => {
+    const { state } = holdingItemAtShelf(1);
+    state.shiftStats.itemsShelved = state.shiftRules.restockQuota - 1;
+    state.stolenItems = state.shiftRules.stolenLimit;
+    state.time = state.shiftRules.duration;
+    expect(step(state, [PRESS_INTERACT], TICK).outcome).toBe("quotaMet");
+  });
+
+  // The start of a second shift with two players, a thief and the relaxed
+  // curve, and the same shift lost a couple of seconds in
+  function playedShift() {
+    const first = createInitialState(
+      7,
+      DEFAULT_LAYOUT,
+      [THIEF_ARCHETYPES.snatcher],
+      DIFFICULTY_CURVES.relaxed,
+      2
+    );
+    const start = startNextShift({ ...first, score: 50 });
+    let state = start;
+    for (let tick = 0; tick < 120; tick++) {
+      state = step(state, [NO_INPUTS, NO_INPUTS], TICK);
+    }
+    const played: SimulationState = {
+      ...state,
+      score: 80,
+      stolenItems: 2,
+      shiftStats: { ...state.shiftStats, itemsShelved: 3, thievesCaught: 1 },
+      outcome: "tooManyStolen",
+    };
+    return { start, played };
+  }
+
+  it("start again from the score and seed they began with on a retry", () => {
+    const { start, played } = playedShift();
+    const retried = retryShift(played);
+
+    expect(retried.seed).toBe(played.seed);
+    expect(retried.shiftNumber).toBe(2);
+    expect(retried.score).toBe(50);
+    expect(retried.shiftStartScore).toBe(50);
+    expect(retried.time).toBe(0);
+    expect(retried.outcome).toBeNull();
+    expect(retried.stolenItems).toBe(0);
+    expect(retried.shiftStats).toEqual(
+      createInitialState(played.seed).shiftStats
+    );
+    expect(retried.players).toHaveLength(2);
+    expect(retried.thieves.map(({ archetype }) => archetype)).toEqual([
+      THIEF_ARCHETYPES.snatcher,
+    ]);
+    expect(retried.difficulty).toBe(DIFFICULTY_CURVES.relaxed);
+    // The same shift as the first time round
+    expect(retried.items).toEqual(start.items);
+    expect(retried.shelfStock).toEqual(start.shelfStock);
+  });
+
+  it("carry the score, rules and difficulty on to the next shift", () => {
+    const { played } = playedShift();
+    const next = startNextShift(played);
+
+    expect(next.seed).toBe(played.rngState);
+    expect(next.shiftNumber).toBe(3);
+    expect(next.score).toBe(80);
+    expect(next.shiftStartScore).toBe(80);
+    expect(next.shiftRules).toBe(played.shiftRules);
+    expect(next.difficulty).toBe(DIFFICULTY_CURVES.relaxed);
+    expect(next.outcome).toBeNull();
+    expect(next.stolenItems).toBe(0);
+    expect(next.shiftStats.itemsShelved).toBe(0);
+    expect(next.players).toHaveLength(2);
+
+    // Later shifts start further along the curve
+    const { performance } = DIFFICULTY_CURVES.relaxed;
+    expect(getCurrentDifficulty(next)).toEqual(
+      getDifficultyLevel(
+        DIFFICULTY_CURVES.relaxed,
+        2 * performance.secondsPerShift
+      )
+    );
+  });
+});
+
+describe("co-op", () => {
+  const PRESS_CATCH: SimulationInputs = { ...NO_INPUTS, catch: true };
+  const PRESS_CART: SimulationInputs = { ...NO_INPUTS, cart: true };
+
+  // Two players in an empty store, one at each of the given x positions,
+  // and two snatchers passing for customers
+  function twoPlayers(xs: [number, number]): SimulationState {
+    const state = createInitialState(
+      1,
+      openStore(),
+      [THIEF_ARCHETYPES.snatcher, THIEF_ARCHETYPES.snatcher],
+      DIFFICULTY_CURVES.standard,
+      2
+    );
+    state.items = [];
+    state.customerTimer = Infinity;
+    state.players = state.players.map((player, index) => ({
+      ...player,
+      position: [xs[index], player.position[1], 0],
+    }));
+    return state;
+  }
+
+  it("lets each player catch the thief in front of them", () => {
+    const state = twoPlayers([-2, 2]);
+    state.thieves = state.thieves.map((thief, index) => ({
+      ...thief,
+      mode: "searching",
+      position: state.players[index].position,
+    }));
+
+    const first = step(state, [PRESS_CATCH, NO_INPUTS], TICK);
+    expect(first.thieves[0].mode).toBe("fleeing");
+    expect(first.thieves[1].mode).not.toBe("fleeing");
+    expect(first.shiftStats.thievesCaught).toBe(1);
+
+    first.thieves[1].position = first.players[1].position;
+    const second = step(first, [NO_INPUTS, PRESS_CATCH], TICK);
+    expect(second.thieves[1].mode).toBe("fleeing");
+    expect(second.shiftStats.thievesCaught).toBe(2);
+  });
+
+  it("lets one player push the cart at a time", () => {
+    const state = twoPlayers([-0.8, 0.8]);
+    state.cart = { ...state.cart, position: [0, 0.15, 0], pushedBy: null };
+
+    const taken = step(state, [NO_INPUTS, PRESS_CART], TICK);
+    expect(taken.cart.pushedBy).toBe(1);
+    expect(step(taken, [PRESS_CART, NO_INPUTS], TICK).cart.pushedBy).toBe(1);
+
+    // Only the one pushing takes the cart along
+    const right: SimulationInputs = { ...NO_INPUTS, move: [1, 0] };
+    const left: SimulationInputs = { ...NO_INPUTS, move: [-1, 0] };
+    const pushed = step(taken, [NO_INPUTS, right], TICK);
+    expect(pushed.cart.position[0]).toBeGreaterThan(taken.cart.position[0]);
+    const walked = step(taken, [left, NO_INPUTS], TICK);
+    expect(walked.cart.position).toEqual(taken.cart.position);
+    expect(walked.players[0].position[0]).toBeLessThan(-0.8);
+
+    const letGo = step(taken, [NO_INPUTS, PRESS_CART], TICK);
+    expect(letGo.cart.pushedBy).toBeNull();
+    letGo.players[0].position = [
+      letGo.cart.position[0] - 0.8,
+      letGo.players[0].position[1],
+      letGo.cart.position[2],
+    ];
+    expect(step(letGo, [PRESS_CART, NO_INPUTS], TICK).cart.pushedBy).toBe(0);
+  });
+});
+
+describe("determinism", () => {
+  // Walk in a circle, trying to pick up or shelve something now and then
+  function play(seed: number, ticks: number): SimulationState {
+    let state = createInitialState(seed);
+    for (let tick = 0; tick < ticks; tick++) {
+      const angle = tick / 120;
+      state = step(
+        state,
+        [
+          {
+            ...NO_INPUTS,
+            move: [Math.cos(angle), Math.sin(angle)],
+            interact: tick % 30 === 0,
+          },
+        ],
+        TICK
+      );
+    }
+    return state;
+  }
+
+  it("plays out the same from the same seed and inputs", () => {
+    // Long enough for customers and the first thief to come in
+    const ticks = 30 / TICK;
+    expect(play(42, ticks)).toEqual(play(42, ticks));
+  });
+});
@@ -0,0 +1,2079 @@
+import { CART_CONSTANTS } from "./cart";
+import { CUSTOMER_CONSTANTS, CUSTOMER_MODELS } from "./customers";
+import { THROW_CONSTANTS } from "./throwing";
+import {
+  DEFAULT_DIFFICULTY,
+  DifficultyCurve,
+  DifficultyLevel,
+  getDifficultyLevel,
+  getDifficultyProgress,
+} from "./difficulty";
+import {
+  ITEM_TYPES,
+  Item,
+  ItemType,
+  PRODUCT_CATEGORIES,
+  belongsOn,
+  isNearItem,
+} from "./items";
+import { DEFAULT_LAYOUT, ShelfKind, StoreLayout, WallOpening } from "./layout";
+import {
+  NavAgent,
+  clearPath,
+  getNavGrid,
+  getNearestWalkablePoint,
+  isWalkable,
+  moveAgent,
+} from "./navigation";
+import { nextRandom } from "./rng";
+import {
+  CHARACTER_SIZE,
+  FIXTURE_FOOTPRINTS,
+  SHELF_CAPACITY,
+  ShelfPosition,
+  Vec3,
+  checkCollisionWithShelves,
+  degreesToRadians,
+  getFootprintRect,
+  getDoorPoints,
+  getStoreOffset,
+  isNearShelf,
+} from "./store";
+import { DEFAULT_THIEVES, ThiefArchetype } from "./thieves";
+import { VISION, canSee, findHidingSpot } from "./vision";
+
+// Headless game rules. Nothing in here touches React, three.js or the DOM,
+// so a whole run can be advanced with step() from a plain test.
+
+export type ThiefMode =
+  | "waiting"
+  | "entering"
+  | "searching"
+  | "lurking" // Waiting out of the player's sight
+  | "escaping"
+  | "fleeing";
+
+export interface PlayerState {
+  position: Vec3;
+  rotation: number; // Facing angle around the y axis
+  moving: boolean;
+  heldItemId: number | null; // Held items stay in `items` until shelved
+  throwCharge: number; // Seconds the throw key has been held with an item
+}
+
+export interface ThiefState extends NavAgent {
+  id: number;
+  archetype: ThiefArchetype;
+  doorIndex: number; // Which of the layout's doors it comes and goes by
+  mode: ThiefMode;
+  targetPosition: Vec3;
+  targetItemId: number | null;
+  targetShelfId: string | null; // Shelf it means to take stock from
+  targetCart: boolean; // Going for the unattended shopping cart
+  holdingItems: Item[];
+  waitTimer: number; // Seconds left before entering the store
+  fleeingCooldown: number; // Seconds left outside after being caught
+  suspicion: number; // 0 to 1, how sure the thief is the player is onto it
+  spotted: boolean; // Seen by the player with suspicion past the threshold
+  lurkTimer: number; // Seconds left to wait in cover
+  lurkCooldown: number; // Seconds before the thief will hide again
+  stunTimer: number; // Seconds left dazed after being hit by a thrown item
+}
+
+// An item in the air. Out of `items` until it lands.
+export interface ThrownItem {
+  item: Item;
+  velocity: Vec3;
+  flightTime: number;
+}
+
+export interface CartState {
+  position: Vec3;
+  rotation: number; // Facing angle around the y axis
+  items: Item[]; // Out of `items` while in the cart, like a thief's loot
+  pushedBy: number | null; // Index of the player who has hold of it
+}
+
+export type CustomerMode = "entering" | "browsing" | "queueing" | "leaving";
+
+export interface CustomerState extends NavAgent {
+  id: number;
+  model: string;
+  doorIndex: number;
+  mode: CustomerMode;
+  targetPosition: Vec3;
+  targetShelfId: string | null;
+  shoppingList: number; // Products still to pick up
+  basket: ItemType[];
+  scanned: number; // Products in the basket the player has scanned so far
+  timer: number; // Seconds spent at the current shelf
+  queuedAt: number; // Simulation time the customer joined the queue
+}
+
+// Things that happened during a single step, for effects and sounds
+export type SimulationEvent =
+  | { type: "itemPickedUp"; item: Item } // Into the player's hands or cart
+  | { type: "cartFull"; item: Item }
+  | { type: "itemDropped"; item: Item }
+  | { type: "itemThrown"; item: Item }
+  | { type: "itemLanded"; item: Item }
+  | { type: "itemShelved"; item: Item; shelf: ShelfPosition; points: number }
+  | { type: "shelfFull"; item: Item; shelf: ShelfPosition }
+  | { type: "wrongShelf"; item: Item; shelf: ShelfPosition } // Other category
+  | { type: "stockTaken"; customerId: number; shelfId: string; product: string }
+  | { type: "customerEntered"; customerId: number }
+  | { type: "itemScanned"; customerId: number; product: ItemType }
+  | {
+      type: "customerPaid";
+      customerId: number;
+      products: ItemType[];
+      revenue: number;
+    }
+  | { type: "customerAngry"; customerId: number; penalty: number } // Waited too long
+  | { type: "customerLeft"; customerId: number; doorIndex: number }
+  | { type: "customerAccused"; customerId: number; penalty: number }
+  | { type: "itemSpawned"; item: Item }
+  | { type: "itemStolen"; item: Item; thiefId: number; shelfId: string | null }
+  | { type: "thiefEntered"; thiefId: number }
+  | { type: "thiefEscaped"; thiefId: number }
+  | { type: "thiefSpotted"; thiefId: number }
+  | { type: "thiefSpooked"; thiefId: number } // Gave up because it was watched
+  | { type: "thiefStunned"; thiefId: number } // Hit by a thrown item
+  | { type: "thiefCaught"; thiefId: number; recoveredItems: Item[] }
+  | { type: "shiftEnded"; outcome: ShiftOutcome };
+
+// A shift is won by restocking `restockQuota` items before time runs out,
+// and lost early once `stolenLimit` items have been stolen
+export interface ShiftRules {
+  duration: number; // Seconds
+  restockQuota: number;
+  stolenLimit: number;
+}
+
+export type ShiftOutcome = "quotaMet" | "tooManyStolen" | "outOfTime";
+
+// Running totals for the end-of-shift screen
+export interface ShiftStats {
+  itemsShelved: number;
+  thievesCaught: number;
+  itemsLost: number; // Carried out of the door, not recovered
+  customersServed: number;
+  customersLost: number; // Left the queue angry
+}
+
+export const DEFAULT_SHIFT: ShiftRules = {
+  duration: 180,
+  restockQuota: 12,
+  stolenLimit: 8,
+};
+
+// Units of each product on a shelf, keyed by item type name
+export type ShelfStock = { [product: string]: number };
+
+export interface SimulationState {
+  layout: StoreLayout;
+  seed: number;
+  rngState: number; // Advanced by random(), never by Math.random()
+  time: number;
+  items: Item[];
+  nextItemId: number;
+  cart: CartState;
+  thrownItems: ThrownItem[];
+  shelfStock: { [shelfId: string]: ShelfStock }; // Replaced, never mutated
+  players: PlayerState[]; // One per local player, in co-op two
+  thieves: ThiefState[];
+  customers: CustomerState[];
+  nextCustomerId: number;
+  customerTimer: number; // Seconds until the next customer turns up
+  score: number;
+  stolenItems: number;
+  shiftNumber: number; // 1 for the first shift of a run
+  shiftStartScore: number; // Score carried over from earlier shifts
+  shiftRules: ShiftRules;
+  shiftStats: ShiftStats;
+  outcome: ShiftOutcome | null; // Set once the shift is over
+  difficulty: DifficultyCurve;
+  itemSpawnTimer: number; // Seconds since the director last added an item
+  events: SimulationEvent[];
+}
+
+export interface SimulationInputs {
+  move: [number, number]; // World-space x/z direction, length 0 to 1
+  interact: boolean; // True only on the tick the interact key was pressed
+  catch: boolean; // Same, for grabbing the person in front of the player
+  cart: boolean; // Same, for taking hold of the cart or letting go of it
+  drop: boolean; // Same, for putting the held item down
+  aim: boolean; // True for as long as the throw key is held
+  sprint: boolean; // Same, for the sprint key
+}
+
+export const NO_INPUTS: SimulationInputs = {
+  move: [0, 0],
+  interact: false,
+  catch: false,
+  cart: false,
+  drop: false,
+  aim: false,
+  sprint: false,
+};
+
+// The same inputs with nothing pressed, for ticks that repeat the last
+// inputs, e.g. the extra ticks of a frame that runs several
+export function withoutPresses(inputs: SimulationInputs): SimulationInputs {
+  return { ...inputs, interact: false, catch: false, cart: false, drop: false };
+}
+
+// Inputs for thieves steered by a remote player in versus mode, keyed by
+// thief id. A thief without inputs is left to its own state machine.
+export type ThiefInputs = { [thiefId: number]: SimulationInputs };
+
+// Speeds are in units per second
+export const SIMULATION_CONSTANTS = {
+  initialItems: 5,
+  maxSpawnAttempts: 20,
+  itemHeight: 0.2,
+  baseHeight: 0.15,
+  playerSpeed: 2.1,
+  sprintMultiplier: 1.6, // Not while pushing the cart
+  shelveScore: 10,
+  thiefEntryStagger: 6, // Extra wait for each thief after the first
+  playerCollisionRadius: 0.7, // How close the player needs to be to catch the thief
+  stealRadius: 0.5,
+  doorRadius: 0.5,
+  arrivalRadius: 0.1,
+  wanderRange: 1.5,
+  suspicionGain: 0.8, // Per second in plain view, more when the player is close
+  suspicionDecay: 0.2, // Per second out of sight
+  spottedSuspicion: 0.5, // Past this the thief looks for cover
+  lurkTime: 3,
+  lurkCooldown: 5,
+  visibleItemPenalty: 4, // Extra distance an item in the player's sight "costs"
+  claimedItemPenalty: 3, // Same, for an item another thief is already after
+  shelfRaidPenalty: 2, // Same, for taking from a shelf instead of the floor
+  initialStockRatio: 0.5, // Shelves start half full
+  lowStockRatio: 0.25, // Below this a shelf counts as running low
+  lowStockBonus: 5, // Extra score for restocking a shelf that was low
+  playerSpacing: 0.8, // Between players at the start of a co-op shift
+};
+
+// Seconds per step in play and in replays. A fixed step means a run depends
+// only on its inputs, not on the frame rate it was played at.
+export const TICK = 1 / 60;
+
+// Players sharing one screen in co-op
+export const MAX_PLAYERS = 2;
+
+// Draw the next number in [0, 1) from the state's seeded generator
+export function random(state: SimulationState): number {
+  const [value, rngState] = nextRandom(state.rngState);
+  state.rngState = rngState;
+  return value;
+}
+
+// Pick one of the layout's spawn zones, weighted by area
+function pickSpawnZone(state: SimulationState) {
+  const zones = state.layout.spawnZones;
+  if (zones.length === 1) return zones[0];
+
+  const totalArea = zones.reduce(
+    (sum, zone) => sum + zone.width * zone.depth,
+    0
+  );
+  let pick = random(state) * totalArea;
+  for (const zone of zones) {
+    pick -= zone.width * zone.depth;
+    if (pick < 0) return zone;
+  }
+  return zones[zones.length - 1];
+}
+
+// A random product that can go on one of the given kinds of shelf
+function randomProduct(state: SimulationState, kinds: ShelfKind[]): ItemType {
+  const products = ITEM_TYPES.filter((type) =>
+    kinds.some((kind) => belongsOn(type, kind))
+  );
+  return products[Math.floor(random(state) * products.length)];
+}
+
+export function getStockCount(stock: ShelfStock | undefined): number {
+  if (!stock) return 0;
+  return Object.values(stock).reduce((sum, count) => sum + count, 0);
+}
+
+function getShelfCapacity(state: SimulationState, shelfId: string): number {
+  const shelf = state.layout.shelves.find((other) => other.id === shelfId);
+  return shelf ? SHELF_CAPACITY[shelf.kind] : 0;
+}
+
+// How full a shelf is, from 0 to 1
+export function getShelfFill(state: SimulationState, shelfId: string): number {
+  const capacity = getShelfCapacity(state, shelfId);
+  if (capacity === 0) return 0;
+  return getStockCount(state.shelfStock[shelfId]) / capacity;
+}
+
+// Add units of a product to a shelf, or remove them with a negative count
+function changeStock(
+  state: SimulationState,
+  shelfId: string,
+  product: string,
+  count: number
+) {
+  const stock = state.shelfStock[shelfId] ?? {};
+  state.shelfStock = {
+    ...state.shelfStock,
+    [shelfId]: { ...stock, [product]: (stock[product] ?? 0) + count },
+  };
+}
+
+// A random product the shelf has at least one unit of
+function pickStockedProduct(
+  state: SimulationState,
+  shelfId: string
+): ItemType | null {
+  const stock = state.shelfStock[shelfId] ?? {};
+  const products = ITEM_TYPES.filter((type) => (stock[type.name] ?? 0) > 0);
+  if (products.length === 0) return null;
+  return products[Math.floor(random(state) * products.length)];
+}
+
+// Function to spawn a random item in the world
+function spawnItem(state: SimulationState): Item {
+  const layout = state.layout;
+  let x, z;
+  let attempts = 0;
+
+  // Try to find a valid position that's not on a shelf
+  do {
+    const zone = pickSpawnZone(state);
+    x = zone.x + (random(state) - 0.5) * zone.width;
+    z = zone.z + (random(state) - 0.5) * zone.depth;
+    attempts++;
+
+    // If we've tried too many times, just place it somewhere
+    if (attempts >= SIMULATION_CONSTANTS.maxSpawnAttempts) {
+      break;
+    }
+  } while (checkCollisionWithShelves(layout, x, z));
+
+  // Only spawn products this store has somewhere to put
+  const newItem: Item = {
+    id: state.nextItemId++,
+    type: randomProduct(
+      state,
+      layout.shelves.map((shelf) => shelf.kind)
+    ),
+    position: [x, SIMULATION_CONSTANTS.itemHeight, z],
+    onShelf: false,
+  };
+
+  state.items.push(newItem);
+  return newItem;
+}
+
+function createThief(
+  layout: StoreLayout,
+  id: number,
+  archetype: ThiefArchetype,
+  waitTime: number
+): ThiefState {
+  const doorIndex = id % layout.doors.length;
+  const door = getDoorPoints(layout, layout.doors[doorIndex]);
+
+  return {
+    id,
+    archetype,
+    doorIndex,
+    mode: "waiting",
+    position: [...door.outside],
+    rotation: Math.PI / 2, // Face inward
+    targetPosition: [...door.outside],
+    path: [],
+    pathGoal: null,
+    targetItemId: null,
+    targetShelfId: null,
+    targetCart: false,
+    holdingItems: [],
+    // Stagger the first visits so the thieves don't walk in together
+    waitTimer: waitTime + id * SIMULATION_CONSTANTS.thiefEntryStagger,
+    fleeingCooldown: 0,
+    suspicion: 0,
+    spotted: false,
+    lurkTimer: 0,
+    lurkCooldown: 0,
+    stunTimer: 0,
+    moving: false,
+  };
+}
+
+// The cart starts just inside the first door, facing into the store
+function createCart(layout: StoreLayout): CartState {
+  const { inside, outside } = getDoorPoints(layout, layout.doors[0]);
+  const rotation = Math.atan2(inside[0] - outside[0], inside[2] - outside[2]);
+  const spot = getNearestWalkablePoint(
+    getNavGrid(layout),
+    inside[0] + Math.sin(rotation),
+    inside[2] + Math.cos(rotation)
+  );
+  const position = spot ?? inside;
+
+  return {
+    position: [position[0], SIMULATION_CONSTANTS.baseHeight, position[2]],
+    rotation,
+    items: [],
+    pushedBy: null,
+  };
+}
+
+// Players start in the middle of the store, side by side
+function createPlayer(layout: StoreLayout, index: number): PlayerState {
+  const { baseHeight, playerSpacing } = SIMULATION_CONSTANTS;
+  const spot =
+    index === 0
+      ? null
+      : getNearestWalkablePoint(getNavGrid(layout), index * playerSpacing, 0);
+  return {
+    position: [spot?.[0] ?? 0, baseHeight, spot?.[2] ?? 0],
+    rotation: 0,
+    moving: false,
+    heldItemId: null,
+    throwCharge: 0,
+  };
+}
+
+export function createInitialState(
+  seed: number,
+  layout: StoreLayout = DEFAULT_LAYOUT,
+  thieves: ThiefArchetype[] = DEFAULT_THIEVES,
+  difficulty: DifficultyCurve = DEFAULT_DIFFICULTY,
+  playerCount = 1
+): SimulationState {
+  const firstWait = difficulty.curve[0].thiefWaitTime;
+  const state: SimulationState = {
+    layout,
+    seed,
+    rngState: seed,
+    time: 0,
+    items: [],
+    nextItemId: 0,
+    cart: createCart(layout),
+    thrownItems: [],
+    shelfStock: {},
+    players: Array.from({ length: playerCount }, (_, index) =>
+      createPlayer(layout, index)
+    ),
+    thieves: thieves.map((archetype, id) =>
+      createThief(layout, id, archetype, firstWait)
+    ),
+    customers: [],
+    nextCustomerId: 0,
+    customerTimer: CUSTOMER_CONSTANTS.firstSpawnDelay,
+    score: 0,
+    stolenItems: 0,
+    shiftNumber: 1,
+    shiftStartScore: 0,
+    shiftRules: DEFAULT_SHIFT,
+    shiftStats: {
+      itemsShelved: 0,
+      thievesCaught: 0,
+      itemsLost: 0,
+      customersServed: 0,
+      customersLost: 0,
+    },
+    outcome: null,
+    difficulty,
+    itemSpawnTimer: 0,
+    events: [],
+  };
+
+  for (const shelf of layout.shelves) {
+    const units = Math.round(
+      SHELF_CAPACITY[shelf.kind] * SIMULATION_CONSTANTS.initialStockRatio
+    );
+    for (let i = 0; i < units; i++) {
+      changeStock(state, shelf.id, randomProduct(state, [shelf.kind]).name, 1);
+    }
+  }
+
+  for (let i = 0; i < SIMULATION_CONSTANTS.initialItems; i++) {
+    spawnItem(state);
+  }
+
+  return state;
+}
+
+// Set up a shift that continues a run with the given score
+function createShift(
+  previous: SimulationState,
+  seed: number,
+  shiftNumber: number,
+  score: number
+): SimulationState {
+  const state = createInitialState(
+    seed,
+    previous.layout,
+    previous.thieves.map((thief) => thief.archetype),
+    previous.difficulty,
+    previous.players.length
+  );
+  state.shiftNumber = shiftNumber;
+  state.score = score;
+  state.shiftStartScore = score;
+  state.shiftRules = previous.shiftRules;
+  return state;
+}
+
+// A whole new run like this one: the same store, thieves, difficulty and
+// number of players unless given others
+export function startNewRun(
+  state: SimulationState,
+  seed: number,
+  layout = state.layout,
+  playerCount = state.players.length
+): SimulationState {
+  return createInitialState(
+    seed,
+    layout,
+    state.thieves.map((thief) => thief.archetype),
+    state.difficulty,
+    playerCount
+  );
+}
+
+// Play the same shift again from its start
+export function retryShift(state: SimulationState): SimulationState {
+  return createShift(
+    state,
+    state.seed,
+    state.shiftNumber,
+    state.shiftStartScore
+  );
+}
+
+// Move on to the next shift, keeping the score. The new seed comes from the
+// current generator so a whole run replays from the first seed.
+export function startNextShift(state: SimulationState): SimulationState {
+  return createShift(state, state.rngState, state.shiftNumber + 1, state.score);
+}
+
+// Where the director has the difficulty right now
+export function getCurrentDifficulty(state: SimulationState): DifficultyLevel {
+  return getDifficultyLevel(
+    state.difficulty,
+    getDifficultyProgress(state.difficulty, {
+      time: state.time,
+      shiftNumber: state.shiftNumber,
+      itemsShelved: state.shiftStats.itemsShelved,
+      thievesCaught: state.shiftStats.thievesCaught,
+      stolenItems: state.stolenItems,
+    })
+  );
+}
+
+export function getShiftTimeLeft(state: SimulationState): number {
+  return Math.max(0, state.shiftRules.duration - state.time);
+}
+
+export function getHeldItem(
+  state: SimulationState,
+  player: PlayerState
+): Item | null {
+  if (player.heldItemId === null) return null;
+  return state.items.find((item) => item.id === player.heldItemId) || null;
+}
+
+// Whether any of the players has the item in their hands
+function isHeld(state: SimulationState, itemId: number): boolean {
+  return state.players.some((player) => player.heldItemId === itemId);
+}
+
+// Whether any of the players can see the spot
+function isSeenByPlayers(state: SimulationState, target: Vec3): boolean {
+  return state.players.some((player) => canSee(state.layout, player, target));
+}
+
+function distance2D(a: Vec3, b: Vec3): number {
+  const dx = a[0] - b[0];
+  const dz = a[2] - b[2];
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+// Where the cart sits when pushed by a player at `position`
+function getCartPosition(position: Vec3, rotation: number): Vec3 {
+  return [
+    position[0] + Math.sin(rotation) * CART_CONSTANTS.offset,
+    position[1],
+    position[2] + Math.cos(rotation) * CART_CONSTANTS.offset,
+  ];
+}
+
+// Whether the cart would hit a shelf or leave the floor at this spot
+function checkCartCollision(state: SimulationState, position: Vec3): boolean {
+  const bounds = getStoreOffset(state.layout);
+  return (
+    Math.abs(position[0]) > bounds.x ||
+    Math.abs(position[2]) > bounds.z ||
+    checkCollisionWithShelves(
+      state.layout,
+      position[0],
+      position[2],
+      CART_CONSTANTS.radius
+    )
+  );
+}
+
+// How full the cart is, from 0 to 1
+export function getCartLoad(state: SimulationState): number {
+  return state.cart.items.length / CART_CONSTANTS.capacity;
+}
+
+function stepPlayer(
+  state: SimulationState,
+  index: number,
+  inputs: SimulationInputs,
+  dt: number
+) {
+  const player = state.players[index];
+  const cart = state.cart;
+  const [moveX, moveZ] = inputs.move;
+  const { baseHeight, playerSpeed } = SIMULATION_CONSTANTS;
+  const bounds = getStoreOffset(state.layout);
+
+  if (inputs.cart) {
+    toggleCart(state, index);
+  }
+
+  const pushing = cart.pushedBy === index;
+  player.moving = moveX !== 0 || moveZ !== 0;
+  if (player.moving && pushing) {
+    // A loaded cart is slow to get going and slow to turn. It rolls the way
+    // it's pointing, so pulling the other way only swings it round.
+    const load = getCartLoad(state);
+    const facing = Math.atan2(moveX, moveZ);
+    let turn = facing - player.rotation;
+    while (turn > Math.PI) turn -= Math.PI * 2;
+    while (turn < -Math.PI) turn += Math.PI * 2;
+    const maxTurn =
+      CART_CONSTANTS.turnSpeed *
+      (1 - CART_CONSTANTS.fullLoadTurnSlowdown * load) *
+      dt;
+    const rotation =
+      player.rotation + Math.max(-maxTurn, Math.min(maxTurn, turn));
+    if (
+      !checkCartCollision(state, getCartPosition(player.position, rotation))
+    ) {
+      player.rotation = rotation;
+    }
+
+    const speed =
+      playerSpeed *
+      (1 - CART_CONSTANTS.fullLoadSlowdown * load) *
+      Math.sqrt(moveX * moveX + moveZ * moveZ) *
+      Math.max(0, Math.cos(turn));
+    const newPosition: Vec3 = [
+      player.position[0] + Math.sin(player.rotation) * speed * dt,
+      baseHeight,
+      player.position[2] + Math.cos(player.rotation) * speed * dt,
+    ];
+    if (
+      !checkCollisionWithShelves(
+        state.layout,
+        newPosition[0],
+        newPosition[2]
+      ) &&
+      !checkCartCollision(state, getCartPosition(newPosition, player.rotation))
+    ) {
+      player.position = newPosition;
+    }
+  } else if (player.moving) {
+    const speed =
+      playerSpeed * (inputs.sprint ? SIMULATION_CONSTANTS.sprintMultiplier : 1);
+    const newX = player.position[0] + moveX * speed * dt;
+    const newZ = player.position[2] + moveZ * speed * dt;
+
+    // Only update position if there's no collision
+    if (!checkCollisionWithShelves(state.layout, newX, newZ)) {
+      // Update position with boundary checks
+      player.position = [
+        Math.max(-bounds.x, Math.min(bounds.x, newX)),
+        baseHeight,
+        Math.max(-bounds.z, Math.min(bounds.z, newZ)),
+      ];
+    }
+
+    // Face the movement direction
+    player.rotation = Math.atan2(moveX, moveZ);
+  }
+
+  if (pushing) {
+    cart.position = getCartPosition(player.position, player.rotation);
+    cart.rotation = player.rotation;
+  }
+
+  if (inputs.interact) {
+    if (pushing) {
+      handleCartInteraction(state, player);
+    } else {
+      handleItemInteraction(state, player);
+    }
+  }
+  if (inputs.catch) {
+    handleCatch(state, player);
+  }
+  if (inputs.drop) {
+    dropHeldItem(state, player);
+  }
+  updateThrow(state, player, inputs, dt);
+}
+
+// Put the held item down on the floor in front of the player, or at their
+// feet if there's a shelf in the way
+function dropHeldItem(state: SimulationState, player: PlayerState) {
+  const heldItem = getHeldItem(state, player);
+  if (!heldItem) return;
+
+  const { position, rotation } = player;
+  let x = position[0] + Math.sin(rotation) * THROW_CONSTANTS.dropDistance;
+  let z = position[2] + Math.cos(rotation) * THROW_CONSTANTS.dropDistance;
+  if (
+    checkCollisionWithShelves(state.layout, x, z, THROW_CONSTANTS.itemRadius)
+  ) {
+    x = position[0];
+    z = position[2];
+  }
+
+  const dropped: Item = {
+    ...heldItem,
+    position: [x, SIMULATION_CONSTANTS.itemHeight, z],
+  };
+  state.items = state.items.map((item) =>
+    item.id === dropped.id ? dropped : item
+  );
+  player.heldItemId = null;
+  player.throwCharge = 0;
+  state.events.push({ type: "itemDropped", item: dropped });
+}
+
+// Launch velocity for a throw charged for `charge` seconds
+function getThrowVelocity(player: PlayerState, charge: number): Vec3 {
+  const { chargeTime, minSpeed, maxSpeed, launchAngle } = THROW_CONSTANTS;
+  const power = Math.min(1, charge / chargeTime);
+  const speed = minSpeed + (maxSpeed - minSpeed) * power;
+  const horizontal = Math.cos(launchAngle) * speed;
+  return [
+    Math.sin(player.rotation) * horizontal,
+    Math.sin(launchAngle) * speed,
+    Math.cos(player.rotation) * horizontal,
+  ];
+}
+
+// Where the held item would go if thrown now, up to the first shelf or the
+// floor. Empty when the player isn't aiming.
+export function getThrowArc(
+  state: SimulationState,
+  player: PlayerState
+): Vec3[] {
+  if (player.throwCharge <= 0 || !getHeldItem(state, player)) return [];
+
+  const { gravity, launchHeight, maxFlightTime, shelfHeight, itemRadius } =
+    THROW_CONSTANTS;
+  const velocity = getThrowVelocity(player, player.throwCharge);
+  const points: Vec3[] = [];
+  for (let t = 0; t <= maxFlightTime; t += 0.05) {
+    const point: Vec3 = [
+      player.position[0] + velocity[0] * t,
+      launchHeight + velocity[1] * t - (gravity * t * t) / 2,
+      player.position[2] + velocity[2] * t,
+    ];
+    points.push(point);
+    if (
+      point[1] <= SIMULATION_CONSTANTS.itemHeight ||
+      (point[1] < shelfHeight &&
+        checkCollisionWithShelves(state.layout, point[0], point[2], itemRadius))
+    ) {
+      break;
+    }
+  }
+  return points;
+}
+
+// Charge a throw while the throw key is held, and let the item fly when
+// it's released
+function updateThrow(
+  state: SimulationState,
+  player: PlayerState,
+  inputs: SimulationInputs,
+  dt: number
+) {
+  const heldItem = getHeldItem(state, player);
+  if (!heldItem) {
+    player.throwCharge = 0;
+    return;
+  }
+
+  if (inputs.aim) {
+    player.throwCharge = Math.min(
+      THROW_CONSTANTS.chargeTime,
+      player.throwCharge + dt
+    );
+    return;
+  }
+  if (player.throwCharge <= 0) return;
+
+  const thrown: Item = {
+    ...heldItem,
+    position: [
+      player.position[0],
+      THROW_CONSTANTS.launchHeight,
+      player.position[2],
+    ],
+  };
+  state.items = state.items.filter((item) => item.id !== heldItem.id);
+  player.heldItemId = null;
+  state.thrownItems = [
+    ...state.thrownItems,
+    {
+      item: thrown,
+      velocity: getThrowVelocity(player, player.throwCharge),
+      flightTime: 0,
+    },
+  ];
+  player.throwCharge = 0;
+  state.events.push({ type: "itemThrown", item: thrown });
+}
+
+// Bring a thrown item back down to the floor, somewhere walkable
+function landThrownItem(state: SimulationState, item: Item) {
+  let [x, , z] = item.position;
+  if (checkCollisionWithShelves(state.layout, x, z)) {
+    const spot = getNearestWalkablePoint(getNavGrid(state.layout), x, z);
+    if (spot) [x, , z] = spot;
+  }
+
+  const landed: Item = {
+    ...item,
+    position: [x, SIMULATION_CONSTANTS.itemHeight, z],
+  };
+  state.items = [...state.items, landed];
+  state.events.push({ type: "itemLanded", item: landed });
+}
+
+// Move items through the air. They bounce off shelves and walls, stun the
+// first thief they hit and stop where they land.
+function stepThrownItems(state: SimulationState, dt: number) {
+  const {
+    bounce,
+    gravity,
+    hitHeight,
+    hitRadius,
+    itemRadius,
+    maxFlightTime,
+    shelfHeight,
+    stunTime,
+  } = THROW_CONSTANTS;
+  const bounds = getStoreOffset(state.layout);
+  const fixtures = [...state.layout.shelves, ...state.layout.fixtures];
+
+  state.thrownItems = state.thrownItems.filter((thrown) => {
+    const [x, y, z] = thrown.item.position;
+    let [vx, vy, vz] = thrown.velocity;
+    vy -= gravity * dt;
+    let next: Vec3 = [x + vx * dt, y + vy * dt, z + vz * dt];
+
+    // Bounce back off whichever side of the shelf it came through
+    const blocker =
+      next[1] < shelfHeight &&
+      fixtures.find((fixture) => {
+        const rect = getFootprintRect(fixture);
+        return (
+          next[0] > rect.minX - itemRadius &&
+          next[0] < rect.maxX + itemRadius &&
+          next[2] > rect.minZ - itemRadius &&
+          next[2] < rect.maxZ + itemRadius
+        );
+      });
+    if (blocker) {
+      const rect = getFootprintRect(blocker);
+      if (x <= rect.minX - itemRadius || x >= rect.maxX + itemRadius) {
+        vx = -vx * bounce;
+      } else {
+        vz = -vz * bounce;
+      }
+      next = [x, next[1], z];
+    }
+    if (Math.abs(next[0]) > bounds.x) {
+      vx = -vx * bounce;
+      next[0] = x;
+    }
+    if (Math.abs(next[2]) > bounds.z) {
+      vz = -vz * bounce;
+      next[2] = z;
+    }
+
+    thrown.item = { ...thrown.item, position: next };
+    thrown.velocity = [vx, vy, vz];
+    thrown.flightTime += dt;
+
+    const victim =
+      next[1] < hitHeight &&
+      state.thieves.find(
+        (thief) =>
+          thief.mode !== "waiting" &&
+          thief.mode !== "fleeing" &&
+          thief.stunTimer <= 0 &&
+          distance2D(thief.position, next) < hitRadius
+      );
+    if (victim) {
+      victim.stunTimer = stunTime;
+      state.events.push({ type: "thiefStunned", thiefId: victim.id });
+      landThrownItem(state, thrown.item);
+      return false;
+    }
+
+    if (
+      next[1] <= SIMULATION_CONSTANTS.itemHeight ||
+      thrown.flightTime >= maxFlightTime
+    ) {
+      landThrownItem(state, thrown.item);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Take hold of the cart if it's close enough and nobody else has it, or let
+// go of it. Anything the player was carrying goes into the cart.
+function toggleCart(state: SimulationState, index: number) {
+  const cart = state.cart;
+  const player = state.players[index];
+  if (cart.pushedBy === index) {
+    cart.pushedBy = null;
+    return;
+  }
+  if (
+    cart.pushedBy !== null ||
+    distance2D(player.position, cart.position) > CART_CONSTANTS.grabRadius
+  ) {
+    return;
+  }
+  const heldItem = getHeldItem(state, player);
+  if (heldItem && cart.items.length >= CART_CONSTANTS.capacity) {
+    state.events.push({ type: "cartFull", item: heldItem });
+    return;
+  }
+
+  // Turn to face the cart and pull it in to arm's length
+  const rotation = Math.atan2(
+    cart.position[0] - player.position[0],
+    cart.position[2] - player.position[2]
+  );
+  const position = getCartPosition(player.position, rotation);
+  if (checkCartCollision(state, position)) return;
+
+  player.rotation = rotation;
+  cart.rotation = rotation;
+  cart.position = position;
+  cart.pushedBy = index;
+
+  if (heldItem) {
+    player.heldItemId = null;
+    loadCart(state, heldItem);
+  }
+}
+
+function loadCart(state: SimulationState, item: Item) {
+  state.items = state.items.filter((other) => other.id !== item.id);
+  state.cart.items = [...state.cart.items, item];
+}
+
+// Grab whoever is closest to the player. That's a thief caught, or an
+// honest customer wrongly accused.
+function handleCatch(state: SimulationState, player: PlayerState) {
+  const position = player.position;
+  const radius = SIMULATION_CONSTANTS.playerCollisionRadius;
+
+  let closestDistance = radius;
+  let closestThief: ThiefState | null = null;
+  let closestCustomer: CustomerState | null = null;
+  for (const thief of state.thieves) {
+    if (thief.mode === "waiting" || thief.mode === "fleeing") continue;
+    const distance = distance2D(position, thief.position);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestThief = thief;
+    }
+  }
+  for (const customer of state.customers) {
+    // Already accused or on the way out anyway
+    if (customer.mode === "leaving") continue;
+    const distance = distance2D(position, customer.position);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestThief = null;
+      closestCustomer = customer;
+    }
+  }
+
+  if (closestThief) {
+    catchThief(state, closestThief);
+  } else if (closestCustomer) {
+    accuseCustomer(state, closestCustomer);
+  }
+}
+
+// Put an item on a shelf with room for it. The caller takes it out of
+// wherever it was.
+function shelveItem(state: SimulationState, item: Item, shelf: ShelfPosition) {
+  // Shelves that were running low are worth a bit more
+  const wasLow =
+    getShelfFill(state, shelf.id) < SIMULATION_CONSTANTS.lowStockRatio;
+  changeStock(state, shelf.id, item.type.name, 1);
+
+  const points =
+    SIMULATION_CONSTANTS.shelveScore +
+    (wasLow ? SIMULATION_CONSTANTS.lowStockBonus : 0);
+  state.score += points;
+  state.shiftStats.itemsShelved += 1;
+  state.events.push({ type: "itemShelved", item, shelf, points });
+
+  const newItem = spawnItem(state);
+  state.events.push({ type: "itemSpawned", item: newItem });
+}
+
+// Interacting while pushing the cart. Everything is measured from the cart,
+// since that's what the player steers up to shelves and items: unload one
+// item onto the shelf beside it, scan at the register, or scoop up an item
+// off the floor.
+function handleCartInteraction(state: SimulationState, player: PlayerState) {
+  const cart = state.cart;
+  const shelf = isNearShelf(state.layout, cart.position);
+  const item =
+    shelf && cart.items.find((other) => belongsOn(other.type, shelf.kind));
+
+  if (shelf && item) {
+    if (getShelfFill(state, shelf.id) >= 1) {
+      state.events.push({ type: "shelfFull", item, shelf });
+    } else {
+      cart.items = cart.items.filter((other) => other.id !== item.id);
+      shelveItem(state, item, shelf);
+    }
+    return;
+  }
+
+  if (scanAtRegister(state, player)) return;
+
+  const itemToLoad = state.items.find(
+    (other) =>
+      !other.onShelf &&
+      !isHeld(state, other.id) &&
+      isNearItem(cart.position, other)
+  );
+  if (itemToLoad && cart.items.length >= CART_CONSTANTS.capacity) {
+    state.events.push({ type: "cartFull", item: itemToLoad });
+  } else if (itemToLoad) {
+    loadCart(state, itemToLoad);
+    state.events.push({ type: "itemPickedUp", item: itemToLoad });
+  } else if (shelf && cart.items.length > 0) {
+    // Nothing in the cart goes here
+    state.events.push({ type: "wrongShelf", item: cart.items[0], shelf });
+  }
+}
+
+function handleItemInteraction(state: SimulationState, player: PlayerState) {
+  const position = player.position;
+  const heldItem = getHeldItem(state, player);
+
+  if (heldItem) {
+    // Try to place item on a shelf for its category
+    const nearbyShelf = isNearShelf(
+      state.layout,
+      position,
+      PRODUCT_CATEGORIES[heldItem.type.category].shelves
+    );
+    if (!nearbyShelf) {
+      // Let the player know why nothing happened
+      const otherShelf = isNearShelf(state.layout, position);
+      if (otherShelf) {
+        state.events.push({
+          type: "wrongShelf",
+          item: heldItem,
+          shelf: otherShelf,
+        });
+      }
+    } else if (getShelfFill(state, nearbyShelf.id) >= 1) {
+      state.events.push({
+        type: "shelfFull",
+        item: heldItem,
+        shelf: nearbyShelf,
+      });
+    } else {
+      player.heldItemId = null;
+      state.items = state.items.filter((item) => item.id !== heldItem.id);
+      shelveItem(state, heldItem, nearbyShelf);
+    }
+  } else if (!scanAtRegister(state, player)) {
+    // Try to pick up an item nobody else is holding
+    const itemToPickup = state.items.find(
+      (item) =>
+        !item.onShelf && !isHeld(state, item.id) && isNearItem(position, item)
+    );
+
+    if (itemToPickup) {
+      player.heldItemId = itemToPickup.id;
+      state.events.push({ type: "itemPickedUp", item: itemToPickup });
+    }
+  }
+}
+
+function getThiefDoor(state: SimulationState, thief: ThiefState) {
+  const door: WallOpening | undefined = state.layout.doors[thief.doorIndex];
+  return getDoorPoints(state.layout, door ?? state.layout.doors[0]);
+}
+
+function resetThief(thief: ThiefState, door: { outside: Vec3 }) {
+  thief.mode = "waiting";
+  thief.targetItemId = null;
+  thief.targetShelfId = null;
+  thief.targetCart = false;
+  thief.holdingItems = [];
+  thief.position = [...door.outside];
+  thief.targetPosition = [...door.outside];
+  thief.suspicion = 0;
+  thief.spotted = false;
+  thief.lurkTimer = 0;
+  thief.lurkCooldown = 0;
+  thief.stunTimer = 0;
+  clearPath(thief);
+}
+
+// Raise or lower the thief's suspicion depending on whether any player can
+// see it, and note the moment it first counts as spotted
+function updateSuspicion(
+  state: SimulationState,
+  thief: ThiefState,
+  dt: number
+) {
+  const { suspicionGain, suspicionDecay, spottedSuspicion } =
+    SIMULATION_CONSTANTS;
+  const inStore = thief.mode !== "waiting" && thief.mode !== "fleeing";
+  const watchers = inStore
+    ? state.players.filter((player) =>
+        canSee(state.layout, player, thief.position)
+      )
+    : [];
+  const seen = watchers.length > 0;
+
+  if (seen) {
+    // The closest watcher is the one that counts
+    const closeness =
+      1 -
+      Math.min(
+        ...watchers.map((player) => distance2D(thief.position, player.position))
+      ) /
+        VISION.viewDistance;
+    thief.suspicion = Math.min(
+      1,
+      thief.suspicion +
+        suspicionGain * thief.archetype.nerve * (0.5 + closeness) * dt
+    );
+  } else {
+    thief.suspicion = Math.max(0, thief.suspicion - suspicionDecay * dt);
+  }
+  thief.lurkCooldown = Math.max(0, thief.lurkCooldown - dt);
+
+  const wasSpotted = thief.spotted;
+  thief.spotted = seen && thief.suspicion >= spottedSuspicion;
+  if (thief.spotted && !wasSpotted) {
+    state.events.push({ type: "thiefSpotted", thiefId: thief.id });
+  }
+}
+
+// Give up on the current plan and leave the store
+function abortTheft(
+  state: SimulationState,
+  thief: ThiefState,
+  door: { outside: Vec3 }
+) {
+  thief.mode = "escaping";
+  thief.targetItemId = null;
+  thief.targetShelfId = null;
+  thief.targetCart = false;
+  thief.targetPosition = [...door.outside];
+  state.events.push({ type: "thiefSpooked", thiefId: thief.id });
+}
+
+// Duck out of the player's sight for a while. Returns false if there's no
+// cover nearby.
+function startLurking(thief: ThiefState, spot: Vec3 | null): boolean {
+  if (!spot) return false;
+
+  thief.mode = "lurking";
+  thief.targetItemId = null;
+  thief.targetShelfId = null;
+  thief.targetCart = false;
+  thief.targetPosition = spot;
+  thief.lurkTimer = SIMULATION_CONSTANTS.lurkTime;
+  return true;
+}
+
+// Point the thief at the most tempting loose item, stocked shelf or
+// unattended cart: the
+// closest, preferring ones the player can't see and nobody else has claimed.
+// Returns false if there's nothing left to steal.
+function chooseThiefTarget(state: SimulationState, thief: ThiefState): boolean {
+  const {
+    baseHeight,
+    visibleItemPenalty,
+    claimedItemPenalty,
+    shelfRaidPenalty,
+  } = SIMULATION_CONSTANTS;
+  const others = state.thieves.filter((other) => other.id !== thief.id);
+
+  const score = (position: Vec3, claimed: boolean, penalty: number) =>
+    distance2D(thief.position, position) +
+    (isSeenByPlayers(state, position) ? visibleItemPenalty : 0) +
+    (claimed ? claimedItemPenalty : 0) +
+    penalty;
+
+  let best: {
+    score: number;
+    position: Vec3;
+    itemId: number | null;
+    shelfId: string | null;
+    cart: boolean;
+  } | null = null;
+
+  // Only consider items that are not on shelves and not held by a player
+  for (const item of state.items) {
+    if (item.onShelf || isHeld(state, item.id)) continue;
+    const claimed = others.some((other) => other.targetItemId === item.id);
+    const itemScore = score(item.position, claimed, 0);
+    if (!best || itemScore < best.score) {
+      best = {
+        score: itemScore,
+        position: item.position,
+        itemId: item.id,
+        shelfId: null,
+        cart: false,
+      };
+    }
+  }
+
+  // Shelves with stock can be raided from the nearest spot beside them
+  const grid = getNavGrid(state.layout);
+  for (const shelf of state.layout.shelves) {
+    if (getStockCount(state.shelfStock[shelf.id]) === 0) continue;
+    const position = getNearestWalkablePoint(grid, shelf.x, shelf.z);
+    if (!position) continue;
+    const claimed = others.some((other) => other.targetShelfId === shelf.id);
+    const shelfScore = score(position, claimed, shelfRaidPenalty);
+    if (!best || shelfScore < best.score) {
+      best = {
+        score: shelfScore,
+        position,
+        itemId: null,
+        shelfId: shelf.id,
+        cart: false,
+      };
+    }
+  }
+
+  // So can a cart the player has left alone
+  const cart = state.cart;
+  if (cart.pushedBy === null && cart.items.length > 0) {
+    const claimed = others.some((other) => other.targetCart);
+    const cartScore = score(cart.position, claimed, 0);
+    if (!best || cartScore < best.score) {
+      best = {
+        score: cartScore,
+        position: cart.position,
+        itemId: null,
+        shelfId: null,
+        cart: true,
+      };
+    }
+  }
+
+  if (!best) return false;
+
+  thief.targetItemId = best.itemId;
+  thief.targetShelfId = best.shelfId;
+  thief.targetCart = best.cart;
+  thief.targetPosition = [best.position[0], baseHeight, best.position[2]];
+  return true;
+}
+
+// Take one unit of stock off a shelf as a new item for the thief to carry.
+// Returns null if the shelf is empty.
+function raidShelf(
+  state: SimulationState,
+  thief: ThiefState,
+  shelf: ShelfPosition
+): Item | null {
+  const product = pickStockedProduct(state, shelf.id);
+  if (!product) return null;
+
+  changeStock(state, shelf.id, product.name, -1);
+
+  return {
+    id: state.nextItemId++,
+    type: product,
+    position: [...thief.position],
+    onShelf: false,
+  };
+}
+
+// Grab a random item out of the unattended cart. Returns null if it's empty.
+function snatchFromCart(state: SimulationState): Item | null {
+  const cart = state.cart;
+  if (cart.items.length === 0) return null;
+
+  const item = cart.items[Math.floor(random(state) * cart.items.length)];
+  cart.items = cart.items.filter((other) => other.id !== item.id);
+  return item;
+}
+
+// Put a stolen item in the thief's hands and count it against the store
+function pocketItem(
+  state: SimulationState,
+  thief: ThiefState,
+  item: Item,
+  shelfId: string | null
+) {
+  thief.holdingItems = [...thief.holdingItems, item];
+  state.items = state.items.filter((other) => other.id !== item.id);
+  state.stolenItems += 1;
+  state.events.push({ type: "itemStolen", item, thiefId: thief.id, shelfId });
+}
+
+// A thief with stolen goods in its hands no longer passes for a customer
+export function isThiefRevealed(thief: ThiefState): boolean {
+  return thief.holdingItems.length > 0 || thief.mode === "fleeing";
+}
+
+// How wary the most nervous thief still passing for a customer is, from 0 to
+// 1. Enough to warn the player that someone is watching them back without
+// saying which shopper it is.
+export function getUndercoverSuspicion(state: SimulationState): number {
+  return Math.max(
+    0,
+    ...state.thieves
+      .filter((thief) => !isThiefRevealed(thief))
+      .map((thief) => thief.suspicion)
+  );
+}
+
+// Take back what the thief was carrying and send it running
+function catchThief(state: SimulationState, thief: ThiefState) {
+  const door = getThiefDoor(state, thief);
+
+  // Drop everything the thief was carrying
+  const recoveredItems = thief.holdingItems.map((item) => ({
+    ...item,
+    position: [...thief.position] as Vec3,
+  }));
+  state.items = [...state.items, ...recoveredItems];
+  thief.holdingItems = [];
+  state.stolenItems = Math.max(0, state.stolenItems - recoveredItems.length);
+
+  state.shiftStats.thievesCaught += 1;
+  state.events.push({
+    type: "thiefCaught",
+    thiefId: thief.id,
+    recoveredItems,
+  });
+
+  // Run away to the door
+  thief.mode = "fleeing";
+  thief.targetItemId = null;
+  thief.targetShelfId = null;
+  thief.targetCart = false;
+  thief.targetPosition = [...door.outside];
+  thief.fleeingCooldown = thief.archetype.fleeingCooldown;
+  thief.stunTimer = 0;
+}
+
+// Thieves inside the store or on their way in or out
+function countActiveThieves(state: SimulationState): number {
+  return state.thieves.filter((thief) => thief.mode !== "waiting").length;
+}
+
+// Take whatever is within reach of a remote player's thief: a loose item
+// first, then stock off a shelf, then something out of an unattended cart
+function stealInReach(state: SimulationState, thief: ThiefState) {
+  const item = state.items.find(
+    (item) =>
+      !item.onShelf &&
+      !isHeld(state, item.id) &&
+      isNearItem(thief.position, item)
+  );
+  if (item) {
+    pocketItem(state, thief, item, null);
+    return;
+  }
+
+  const shelf = isNearShelf(state.layout, thief.position);
+  const fromShelf = shelf && raidShelf(state, thief, shelf);
+  if (shelf && fromShelf) {
+    pocketItem(state, thief, fromShelf, shelf.id);
+    return;
+  }
+
+  const cart = state.cart;
+  if (
+    cart.pushedBy === null &&
+    distance2D(thief.position, cart.position) < CART_CONSTANTS.grabRadius
+  ) {
+    const fromCart = snatchFromCart(state);
+    if (fromCart) pocketItem(state, thief, fromCart, null);
+  }
+}
+
+// A thief steered by a remote player, from the moment it steps through the
+// door until it leaves or is caught. Catching, stuns and fleeing work the
+// same as for the bots, so only walking and stealing are handled here.
+function stepControlledThief(
+  state: SimulationState,
+  thief: ThiefState,
+  inputs: SimulationInputs,
+  dt: number
+) {
+  const door = getThiefDoor(state, thief);
+  const { doorRadius, sprintMultiplier } = SIMULATION_CONSTANTS;
+  const grid = getNavGrid(state.layout);
+  const bounds = getStoreOffset(state.layout);
+
+  // Whatever the bot had in mind no longer applies
+  thief.targetItemId = null;
+  thief.targetShelfId = null;
+  thief.targetCart = false;
+  clearPath(thief);
+
+  const [moveX, moveZ] = inputs.move;
+  thief.moving = moveX !== 0 || moveZ !== 0;
+  if (thief.moving) {
+    const speed =
+      thief.archetype.speed *
+      getCurrentDifficulty(state).thiefSpeed *
+      (inputs.sprint ? sprintMultiplier : 1);
+    const [x, y, z] = thief.position;
+    const newX = x + moveX * speed * dt;
+    const newZ = z + moveZ * speed * dt;
+
+    // Slide along shelves and walls instead of stopping dead
+    if (isWalkable(grid, newX, newZ)) {
+      thief.position = [newX, y, newZ];
+    } else if (isWalkable(grid, newX, z)) {
+      thief.position = [newX, y, z];
+    } else if (isWalkable(grid, x, newZ)) {
+      thief.position = [x, y, newZ];
+    }
+    thief.rotation = Math.atan2(moveX, moveZ);
+  }
+
+  const inStore =
+    Math.abs(thief.position[0]) <= bounds.x &&
+    Math.abs(thief.position[2]) <= bounds.z;
+  if (inStore) {
+    thief.mode = "searching";
+  } else if (
+    thief.mode !== "entering" &&
+    distance2D(thief.position, door.outside) < doorRadius
+  ) {
+    // Back out of the door, with or without loot
+    state.shiftStats.itemsLost += thief.holdingItems.length;
+    resetThief(thief, door);
+    state.events.push({ type: "thiefEscaped", thiefId: thief.id });
+    return;
+  }
+
+  if (inputs.interact && thief.holdingItems.length < thief.archetype.greed) {
+    stealInReach(state, thief);
+  }
+}
+
+function stepThief(
+  state: SimulationState,
+  thief: ThiefState,
+  dt: number,
+  inputs?: SimulationInputs
+) {
+  const door = getThiefDoor(state, thief);
+  const level = getCurrentDifficulty(state);
+  const {
+    baseHeight,
+    doorRadius,
+    playerCollisionRadius,
+    stealRadius,
+    arrivalRadius,
+    wanderRange,
+  } = SIMULATION_CONSTANTS;
+
+  // Drop the target if a player picked it up
+  if (thief.targetItemId !== null && isHeld(state, thief.targetItemId)) {
+    thief.targetItemId = null;
+  }
+
+  // A thief carrying stolen goods is caught just by running into it
+  if (
+    isThiefRevealed(thief) &&
+    thief.mode !== "fleeing" &&
+    state.players.some(
+      (player) =>
+        distance2D(thief.position, player.position) < playerCollisionRadius
+    )
+  ) {
+    catchThief(state, thief);
+  }
+
+  // Dazed by a thrown item: stand still until it wears off
+  if (thief.stunTimer > 0) {
+    thief.stunTimer = Math.max(0, thief.stunTimer - dt);
+    thief.moving = false;
+    return;
+  }
+
+  updateSuspicion(state, thief, dt);
+
+  // A remote player takes over between coming in and getting caught
+  if (inputs && thief.mode !== "waiting" && thief.mode !== "fleeing") {
+    stepControlledThief(state, thief, inputs, dt);
+    return;
+  }
+
+  // State machine for thief behavior
+  switch (thief.mode) {
+    case "waiting":
+      thief.waitTimer -= dt;
+      // Past its wait, the thief still holds back while the store is full
+      if (
+        thief.waitTimer <= 0 &&
+        countActiveThieves(state) < Math.floor(level.maxActiveThieves)
+      ) {
+        thief.waitTimer = level.thiefWaitTime;
+        thief.mode = "entering";
+        thief.position = [...door.outside];
+        thief.targetPosition = [...door.inside];
+        clearPath(thief);
+        state.events.push({ type: "thiefEntered", thiefId: thief.id });
+      }
+      break;
+
+    case "entering":
+      if (distance2D(thief.position, door.inside) <= arrivalRadius) {
+        // Now move to a random position in the store
+        thief.targetPosition = [
+          random(state) * wanderRange * 2 - wanderRange,
+          baseHeight,
+          random(state) * wanderRange * 2 - wanderRange,
+        ];
+        thief.mode = "searching";
+      } else {
+        thief.targetPosition = [...door.inside];
+      }
+      break;
+
+    case "searching": {
+      // Watched too long: abort
+      if (thief.suspicion >= 1) {
+        abortTheft(state, thief, door);
+        break;
+      }
+
+      // Spotted: detour into cover and try again later
+      if (
+        thief.spotted &&
+        startLurking(
+          thief,
+          findHidingSpot(
+            state.layout,
+            getNavGrid(state.layout),
+            state.players,
+            thief.position
+          )
+        )
+      ) {
+        break;
+      }
+
+      const targetItem = state.items.find(
+        (item) => item.id === thief.targetItemId
+      );
+      const targetShelf = state.layout.shelves.find(
+        (shelf) =>
+          shelf.id === thief.targetShelfId &&
+          getStockCount(state.shelfStock[shelf.id]) > 0
+      );
+      const targetCart =
+        thief.targetCart &&
+        state.cart.pushedBy === null &&
+        state.cart.items.length > 0;
+
+      if (!targetItem && !targetShelf && !targetCart) {
+        if (!chooseThiefTarget(state, thief)) {
+          // Nothing to steal, escape
+          thief.targetItemId = null;
+          thief.targetShelfId = null;
+          thief.targetCart = false;
+          thief.mode = "escaping";
+          thief.targetPosition = [...door.outside];
+        }
+      } else if (
+        distance2D(thief.position, thief.targetPosition) < stealRadius
+      ) {
+        // Steal the item, and escape once the thief has all it wants
+        const shelfId = targetItem ? null : thief.targetShelfId;
+        const stolenItem =
+          targetItem ??
+          (targetShelf
+            ? raidShelf(state, thief, targetShelf)
+            : snatchFromCart(state));
+        if (!stolenItem) break;
+
+        pocketItem(state, thief, stolenItem, shelfId);
+        thief.targetItemId = null;
+        thief.targetShelfId = null;
+        thief.targetCart = false;
+
+        if (thief.holdingItems.length >= thief.archetype.greed) {
+          thief.mode = "escaping";
+          thief.targetPosition = [...door.outside];
+        }
+      } else if (
+        thief.lurkCooldown <= 0 &&
+        distance2D(thief.position, thief.targetPosition) > 1.5 &&
+        isSeenByPlayers(state, thief.targetPosition)
+      ) {
+        // A player is looking at the target, wait behind the aisle
+        startLurking(thief, [...thief.position]);
+      }
+      break;
+    }
+
+    case "lurking":
+      if (thief.suspicion >= 1) {
+        abortTheft(state, thief, door);
+        break;
+      }
+
+      thief.lurkTimer -= dt;
+      if (thief.lurkTimer <= 0) {
+        thief.mode = "searching";
+        thief.lurkCooldown = SIMULATION_CONSTANTS.lurkCooldown;
+      }
+      break;
+
+    case "escaping":
+      if (distance2D(thief.position, door.outside) < doorRadius) {
+        state.shiftStats.itemsLost += thief.holdingItems.length;
+        resetThief(thief, door);
+        state.events.push({ type: "thiefEscaped", thiefId: thief.id });
+      }
+      break;
+
+    case "fleeing": {
+      const bounds = getStoreOffset(state.layout);
+      const isOutsideStore =
+        Math.abs(thief.position[0]) > bounds.x ||
+        Math.abs(thief.position[2]) > bounds.z;
+
+      if (
+        distance2D(thief.position, door.outside) < doorRadius ||
+        isOutsideStore
+      ) {
+        thief.fleeingCooldown -= dt;
+        if (thief.fleeingCooldown <= 0) {
+          thief.fleeingCooldown = 0;
+          resetThief(thief, door);
+        }
+      } else {
+        thief.targetPosition = [...door.outside];
+      }
+      break;
+    }
+  }
+
+  // Walk the navigation grid towards the target if not waiting
+  if (thief.mode !== "waiting") {
+    const speed =
+      thief.mode === "fleeing"
+        ? thief.archetype.fleeingSpeed
+        : thief.archetype.speed * level.thiefSpeed;
+    moveAgent(
+      state.layout,
+      thief,
+      thief.targetPosition,
+      speed,
+      dt,
+      arrivalRadius
+    );
+  } else {
+    thief.moving = false;
+  }
+}
+
+// Drop extra loose items into the store at the director's rate
+function stepItemSpawns(state: SimulationState, dt: number) {
+  const level = getCurrentDifficulty(state);
+  state.itemSpawnTimer += dt;
+  if (state.itemSpawnTimer < level.itemSpawnInterval) return;
+
+  state.itemSpawnTimer = 0;
+  const looseItems = state.items.filter((item) => !item.onShelf).length;
+  if (looseItems < Math.floor(level.maxLooseItems)) {
+    const newItem = spawnItem(state);
+    state.events.push({ type: "itemSpawned", item: newItem });
+  }
+}
+
+function getCustomerDoor(state: SimulationState, customer: CustomerState) {
+  const door: WallOpening | undefined = state.layout.doors[customer.doorIndex];
+  return getDoorPoints(state.layout, door ?? state.layout.doors[0]);
+}
+
+function spawnCustomer(state: SimulationState) {
+  const { minShoppingList, maxShoppingList } = CUSTOMER_CONSTANTS;
+  const doorIndex = Math.floor(random(state) * state.layout.doors.length);
+  const door = getDoorPoints(state.layout, state.layout.doors[doorIndex]);
+  const customer: CustomerState = {
+    id: state.nextCustomerId++,
+    model: CUSTOMER_MODELS[Math.floor(random(state) * CUSTOMER_MODELS.length)],
+    doorIndex,
+    mode: "entering",
+    position: [...door.outside],
+    rotation: Math.PI / 2,
+    targetPosition: [...door.inside],
+    path: [],
+    pathGoal: null,
+    moving: false,
+    targetShelfId: null,
+    shoppingList:
+      minShoppingList +
+      Math.floor(random(state) * (maxShoppingList - minShoppingList + 1)),
+    basket: [],
+    scanned: 0,
+    timer: 0,
+    queuedAt: 0,
+  };
+
+  state.customers = [...state.customers, customer];
+  state.events.push({ type: "customerEntered", customerId: customer.id });
+}
+
+// The layout's first cash register, if it has one
+function getCashRegister(state: SimulationState) {
+  return state.layout.fixtures.find(
+    (fixture) => fixture.kind === "cash-register"
+  );
+}
+
+// Where a customer should stand in the checkout queue: in front of the
+// register for the first in line, then further back one by one. The player
+// works the till from behind it.
+function getQueueSpot(state: SimulationState, customer: CustomerState): Vec3 {
+  const register = getCashRegister(state);
+  if (!register) return [...customer.position];
+
+  const angle = degreesToRadians(register.rotation);
+  const directionX = Math.sin(angle);
+  const directionZ = Math.cos(angle);
+  const position = getQueue(state).findIndex(
+    (other) => other.id === customer.id
+  );
+  const offset =
+    FIXTURE_FOOTPRINTS["cash-register"].depth / 2 +
+    CHARACTER_SIZE.radius * 2 +
+    Math.max(0, position) * CUSTOMER_CONSTANTS.queueSpacing;
+  const spot = getNearestWalkablePoint(
+    getNavGrid(state.layout),
+    register.x + directionX * offset,
+    register.z + directionZ * offset
+  );
+  if (!spot) return [...customer.position];
+  return [spot[0], SIMULATION_CONSTANTS.baseHeight, spot[2]];
+}
+
+// How long a queueing customer has waited, from 0 to 1 when they give up
+export function getImpatience(
+  state: SimulationState,
+  customer: CustomerState
+): number {
+  if (customer.mode !== "queueing") return 0;
+  return Math.min(
+    1,
+    (state.time - customer.queuedAt) / CUSTOMER_CONSTANTS.patience
+  );
+}
+
+// Customers waiting to pay, first in line first
+export function getQueue(state: SimulationState): CustomerState[] {
+  return state.customers
+    .filter((other) => other.mode === "queueing")
+    .sort((a, b) => a.queuedAt - b.queuedAt || a.id - b.id);
+}
+
+// Scan the next product of the customer at the front of the queue when the
+// player is at the register. Returns whether anything was scanned.
+function scanAtRegister(state: SimulationState, player: PlayerState): boolean {
+  const register = getCashRegister(state);
+  if (!register) return false;
+  const registerPosition: Vec3 = [register.x, 0, register.z];
+  if (
+    distance2D(player.position, registerPosition) >
+    CUSTOMER_CONSTANTS.checkoutRadius
+  ) {
+    return false;
+  }
+
+  // Only once they've walked up to the till
+  const customer = getQueue(state)[0];
+  if (
+    !customer ||
+    distance2D(customer.position, customer.targetPosition) >=
+      SIMULATION_CONSTANTS.stealRadius
+  ) {
+    return false;
+  }
+
+  const product = customer.basket[customer.scanned];
+  customer.scanned += 1;
+  state.events.push({ type: "itemScanned", customerId: customer.id, product });
+
+  if (customer.scanned >= customer.basket.length) {
+    const revenue = customer.basket.reduce((sum, type) => sum + type.price, 0);
+    state.score += revenue;
+    state.shiftStats.customersServed += 1;
+    state.events.push({
+      type: "customerPaid",
+      customerId: customer.id,
+      products: customer.basket,
+      revenue,
+    });
+    customer.basket = [];
+    leaveStore(state, customer);
+  }
+  return true;
+}
+
+function leaveStore(state: SimulationState, customer: CustomerState) {
+  customer.mode = "leaving";
+  customer.targetShelfId = null;
+  customer.targetPosition = [...getCustomerDoor(state, customer).outside];
+}
+
+// Leave whatever is in the basket on the floor, for the player to put back
+function dropBasket(state: SimulationState, customer: CustomerState) {
+  const dropped: Item[] = customer.basket.map((type) => ({
+    id: state.nextItemId++,
+    type,
+    position: [
+      customer.position[0],
+      SIMULATION_CONSTANTS.itemHeight,
+      customer.position[2],
+    ],
+    onShelf: false,
+  }));
+
+  state.items = [...state.items, ...dropped];
+  customer.basket = [];
+  customer.scanned = 0;
+}
+
+// Sent out of the store for being mistaken for the thief
+function accuseCustomer(state: SimulationState, customer: CustomerState) {
+  const penalty = CUSTOMER_CONSTANTS.accusationPenalty;
+  dropBasket(state, customer);
+  state.score = Math.max(0, state.score - penalty);
+  leaveStore(state, customer);
+  state.events.push({
+    type: "customerAccused",
+    customerId: customer.id,
+    penalty,
+  });
+}
+
+// Move one customer along its visit. Returns false once it has left.
+function stepCustomer(
+  state: SimulationState,
+  customer: CustomerState,
+  dt: number
+): boolean {
+  const door = getCustomerDoor(state, customer);
+  const { arrivalRadius, doorRadius, stealRadius } = SIMULATION_CONSTANTS;
+  const { angryPenalty, browseTime, patience } = CUSTOMER_CONSTANTS;
+
+  switch (customer.mode) {
+    case "entering":
+      if (distance2D(customer.position, door.inside) <= arrivalRadius) {
+        customer.mode = "browsing";
+      }
+      break;
+
+    case "browsing": {
+      const shelf = state.layout.shelves.find(
+        (other) => other.id === customer.targetShelfId
+      );
+
+      if (customer.shoppingList <= 0) {
+        // Done shopping: pay if there's a till and something to pay for
+        if (customer.basket.length > 0 && getCashRegister(state)) {
+          customer.mode = "queueing";
+          customer.queuedAt = state.time;
+        } else {
+          leaveStore(state, customer);
+        }
+      } else if (!shelf) {
+        // Walk up to a random shelf that has something on it
+        const stocked = state.layout.shelves.filter(
+          (other) => getStockCount(state.shelfStock[other.id]) > 0
+        );
+        const grid = getNavGrid(state.layout);
+        const next = stocked[Math.floor(random(state) * stocked.length)];
+        const spot = next && getNearestWalkablePoint(grid, next.x, next.z);
+        if (!spot) {
+          leaveStore(state, customer);
+          break;
+        }
+        customer.targetShelfId = next.id;
+        customer.targetPosition = [
+          spot[0],
+          SIMULATION_CONSTANTS.baseHeight,
+          spot[2],
+        ];
+        customer.timer = 0;
+      } else if (
+        distance2D(customer.position, customer.targetPosition) < stealRadius
+      ) {
+        // Look the shelf over for a bit, then take something
+        customer.timer += dt;
+        if (customer.timer >= browseTime) {
+          const product = pickStockedProduct(state, shelf.id);
+          if (product) {
+            changeStock(state, shelf.id, product.name, -1);
+            customer.basket = [...customer.basket, product];
+            state.events.push({
+              type: "stockTaken",
+              customerId: customer.id,
+              shelfId: shelf.id,
+              product: product.name,
+            });
+          }
+          customer.shoppingList -= 1;
+          customer.targetShelfId = null;
+        }
+      }
+      break;
+    }
+
+    case "queueing":
+      // Scanning is up to the player, see scanAtRegister()
+      customer.targetPosition = getQueueSpot(state, customer);
+      if (state.time - customer.queuedAt >= patience) {
+        dropBasket(state, customer);
+        state.score = Math.max(0, state.score - angryPenalty);
+        state.shiftStats.customersLost += 1;
+        leaveStore(state, customer);
+        state.events.push({
+          type: "customerAngry",
+          customerId: customer.id,
+          penalty: angryPenalty,
+        });
+      }
+      break;
+
+    case "leaving":
+      if (distance2D(customer.position, door.outside) < doorRadius) {
+        state.events.push({
+          type: "customerLeft",
+          customerId: customer.id,
+          doorIndex: customer.doorIndex,
+        });
+        return false;
+      }
+      break;
+  }
+
+  moveAgent(
+    state.layout,
+    customer,
+    customer.targetPosition,
+    CUSTOMER_CONSTANTS.speed,
+    dt,
+    arrivalRadius
+  );
+  return true;
+}
+
+function stepCustomers(state: SimulationState, dt: number) {
+  const { spawnInterval, maxCustomers } = CUSTOMER_CONSTANTS;
+
+  state.customerTimer -= dt;
+  if (state.customerTimer <= 0) {
+    state.customerTimer = spawnInterval;
+    if (state.customers.length < maxCustomers) {
+      spawnCustomer(state);
+    }
+  }
+
+  state.customers = state.customers.filter((customer) =>
+    stepCustomer(state, customer, dt)
+  );
+}
+
+// End the shift once the quota is met, too much is stolen or time is up
+function checkShiftOutcome(state: SimulationState) {
+  const rules = state.shiftRules;
+  if (state.shiftStats.itemsShelved >= rules.restockQuota) {
+    state.outcome = "quotaMet";
+  } else if (state.stolenItems >= rules.stolenLimit) {
+    state.outcome = "tooManyStolen";
+  } else if (state.time >= rules.duration) {
+    state.outcome = "outOfTime";
+  }
+
+  if (state.outcome) {
+    state.events.push({ type: "shiftEnded", outcome: state.outcome });
+  }
+}
+
+// Advance the game by dt seconds, with one set of inputs per player and,
+// in versus mode, for the thief a remote player is steering. Returns a new
+// state and leaves the old one untouched, so snapshots can be kept around
+// and compared.
+export function step(
+  state: SimulationState,
+  inputs: SimulationInputs[],
+  dt: number,
+  thiefInputs: ThiefInputs = {}
+): SimulationState {
+  // Nothing moves once the shift is over
+  if (state.outcome) {
+    return { ...state, events: [] };
+  }
+
+  const next: SimulationState = {
+    ...state,
+    time: state.time + dt,
+    items: [...state.items],
+    players: state.players.map((player) => ({ ...player })),
+    cart: { ...state.cart },
+    thrownItems: state.thrownItems.map((thrown) => ({ ...thrown })),
+    thieves: state.thieves.map((thief) => ({ ...thief })),
+    customers: state.customers.map((customer) => ({ ...customer })),
+    shiftStats: { ...state.shiftStats },
+    events: [],
+  };
+
+  next.players.forEach((_, index) =>
+    stepPlayer(next, index, inputs[index] ?? NO_INPUTS, dt)
+  );
+  stepThrownItems(next, dt);
+  stepItemSpawns(next, dt);
+  stepCustomers(next, dt);
+  for (const thief of next.thieves) {
+    stepThief(next, thief, dt, thiefInputs[thief.id]);
+  }
+  checkShiftOutcome(next);
+
+  return next;
+}
@@ -0,0 +1,187 @@
+import {
+  FixtureKind,
+  ShelfDefinition,
+  ShelfKind,
+  StoreLayout,
+  WallOpening,
+  WallSide,
+} from "./layout";
+
+export type Vec3 = [number, number, number];
+
+export interface ShelfPosition {
+  id: string;
+  x: number;
+  z: number;
+}
+
+// Geometry helpers that turn a StoreLayout into world positions
+
+export const TILE_SPACING = 1;
+
+// Collision detection constants
+export const SHELF_SIZE = { width: 0.7, depth: 0.7 };
+export const CHARACTER_SIZE = { radius: 0.2 };
+
+// Size of each fixture on the floor, before rotation
+export const FIXTURE_FOOTPRINTS: {
+  [kind in ShelfKind | FixtureKind]: { width: number; depth: number };
+} = {
+  "shelf-boxes": SHELF_SIZE,
+  "shelf-bags": SHELF_SIZE,
+  freezer: SHELF_SIZE,
+  "freezers-standing": SHELF_SIZE,
+  "display-bread": SHELF_SIZE,
+  "display-fruit": SHELF_SIZE,
+  "shelf-end": SHELF_SIZE,
+  column: { width: 0.4, depth: 0.4 },
+  "cash-register": SHELF_SIZE,
+  "bottle-return": SHELF_SIZE,
+};
+
+// How many products each kind of shelf holds
+export const SHELF_CAPACITY: { [kind in ShelfKind]: number } = {
+  "shelf-boxes": 8,
+  "shelf-bags": 8,
+  freezer: 6,
+  "freezers-standing": 10,
+  "display-bread": 6,
+  "display-fruit": 6,
+};
+
+// Calculate offset to center the floor grid on the origin
+export function getStoreOffset(layout: StoreLayout): { x: number; z: number } {
+  return {
+    x: (layout.floor.width * TILE_SPACING) / 2 - TILE_SPACING / 2,
+    z: (layout.floor.depth * TILE_SPACING) / 2 - TILE_SPACING / 2,
+  };
+}
+
+// World position and y rotation of the wall tile at `index` on `side`
+export function getWallPlacement(
+  layout: StoreLayout,
+  side: WallSide,
+  index: number
+): { position: Vec3; rotation: Vec3 } {
+  const offset = getStoreOffset(layout);
+  const half = TILE_SPACING / 2;
+
+  switch (side) {
+    case "back":
+      return {
+        position: [index - offset.x, 0, -offset.z - half],
+        rotation: [0, 0, 0],
+      };
+    case "front":
+      return {
+        position: [index - offset.x, 0, offset.z + half],
+        rotation: [0, Math.PI, 0],
+      };
+    case "left":
+      return {
+        position: [-offset.x - half, 0, index - offset.z],
+        rotation: [0, Math.PI / 2, 0],
+      };
+    case "right":
+      return {
+        position: [offset.x + half, 0, index - offset.z],
+        rotation: [0, -Math.PI / 2, 0],
+      };
+  }
+}
+
+// Points just outside and just inside a door, used by anyone entering the store
+export function getDoorPoints(
+  layout: StoreLayout,
+  door: WallOpening = layout.doors[0]
+): { outside: Vec3; inside: Vec3 } {
+  const { position } = getWallPlacement(layout, door.side, door.index);
+  const half = TILE_SPACING / 2;
+  const normal: { [side in WallSide]: [number, number] } = {
+    back: [0, -1],
+    front: [0, 1],
+    left: [-1, 0],
+    right: [1, 0],
+  };
+  const [nx, nz] = normal[door.side];
+
+  return {
+    outside: [position[0] + nx * half, 0.15, position[2] + nz * half],
+    inside: [position[0] - nx * half, 0.15, position[2] - nz * half],
+  };
+}
+
+export interface Rect {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// Floor area covered by a placement, with quarter turns swapping its sides
+export function getFootprintRect(placement: {
+  kind: ShelfKind | FixtureKind;
+  x: number;
+  z: number;
+  rotation: number;
+}): Rect {
+  const footprint = FIXTURE_FOOTPRINTS[placement.kind];
+  const sideways = Math.abs(placement.rotation / 90) % 2 === 1;
+  const width = sideways ? footprint.depth : footprint.width;
+  const depth = sideways ? footprint.width : footprint.depth;
+
+  return {
+    minX: placement.x - width / 2,
+    maxX: placement.x + width / 2,
+    minZ: placement.z - depth / 2,
+    maxZ: placement.z + depth / 2,
+  };
+}
+
+export function degreesToRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function checkCollisionWithShelves(
+  layout: StoreLayout,
+  x: number,
+  z: number,
+  radius: number = CHARACTER_SIZE.radius
+): boolean {
+  // Check collision with each shelf and blocking fixture
+  for (const fixture of [...layout.shelves, ...layout.fixtures]) {
+    const dx = x - fixture.x;
+    const dz = z - fixture.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    const footprint = FIXTURE_FOOTPRINTS[fixture.kind];
+    if (distance < footprint.width / 2 + radius) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Function to check if character is near a shelf
+export function isNearShelf(
+  layout: StoreLayout,
+  characterPosition: Vec3,
+  kinds?: ShelfKind[]
+): ShelfDefinition | null {
+  // If kinds are provided, only check shelves of those kinds
+  const shelves = kinds
+    ? layout.shelves.filter((shelf) => kinds.includes(shelf.kind))
+    : layout.shelves;
+
+  for (const shelf of shelves) {
+    const dx = characterPosition[0] - shelf.x;
+    const dz = characterPosition[2] - shelf.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance < 0.8) {
+      // Placement radius
+      return shelf;
+    }
+  }
+
+  return null;
+}
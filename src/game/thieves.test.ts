@@ -0,0 +1,28 @@
+import { THIEF_ARCHETYPES, parseThiefRoster } from "./thieves";
+
+describe("parseThiefRoster", () => {
+  it("reads a comma separated list of archetypes, in order", () => {
+    expect(parseThiefRoster("dasher,snatcher")).toEqual([
+      THIEF_ARCHETYPES.dasher,
+      THIEF_ARCHETYPES.snatcher,
+    ]);
+    expect(parseThiefRoster(" hoarder , hoarder ")).toEqual([
+      THIEF_ARCHETYPES.hoarder,
+      THIEF_ARCHETYPES.hoarder,
+    ]);
+  });
+
+  it("skips names it doesn't know", () => {
+    expect(parseThiefRoster("ninja,sneak,")).toEqual([THIEF_ARCHETYPES.sneak]);
+    expect(parseThiefRoster("toString,constructor,sneak")).toEqual([
+      THIEF_ARCHETYPES.sneak,
+    ]);
+  });
+
+  it("gives up on a roster with nobody usable in it", () => {
+    expect(parseThiefRoster(null)).toBeNull();
+    expect(parseThiefRoster("")).toBeNull();
+    expect(parseThiefRoster(",,")).toBeNull();
+    expect(parseThiefRoster("Snatcher,__proto__")).toBeNull();
+  });
+});
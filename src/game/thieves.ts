@@ -0,0 +1,85 @@
+// Kinds of thief. Each one is a tuning of the same behavior, plus the
+// character model it's drawn with. Speeds are in units per second.
+
+export interface ThiefArchetype {
+  name: string;
+  model: string; // File name in public/assets/CharacterModels, no extension
+  color: string; // Highlight on the item it's after
+  speed: number;
+  greed: number; // Items it steals before heading for the door
+  nerve: number; // Multiplies how fast suspicion builds, lower is bolder
+  fleeingSpeed: number;
+  fleeingCooldown: number; // Seconds it stays away after being caught
+}
+
+export const THIEF_ARCHETYPES: { [key: string]: ThiefArchetype } = {
+  // The original thief: grabs one item and runs
+  snatcher: {
+    name: "Snatcher",
+    model: "character-male-f",
+    color: "#ff0000",
+    speed: 1.5,
+    greed: 1,
+    nerve: 1,
+    fleeingSpeed: 4.2,
+    fleeingCooldown: 5,
+  },
+  // Slow and bold, fills its pockets before leaving
+  hoarder: {
+    name: "Hoarder",
+    model: "character-female-b",
+    color: "#ff8800",
+    speed: 1.1,
+    greed: 3,
+    nerve: 0.6,
+    fleeingSpeed: 3,
+    fleeingCooldown: 8,
+  },
+  // Fast but jumpy, gives up as soon as it's watched
+  dasher: {
+    name: "Dasher",
+    model: "character-male-c",
+    color: "#ff00aa",
+    speed: 2.1,
+    greed: 1,
+    nerve: 1.6,
+    fleeingSpeed: 5,
+    fleeingCooldown: 3,
+  },
+  // Patient, takes two items and keeps its cool
+  sneak: {
+    name: "Sneak",
+    model: "character-female-d",
+    color: "#aa00ff",
+    speed: 1.3,
+    greed: 2,
+    nerve: 0.8,
+    fleeingSpeed: 4,
+    fleeingCooldown: 6,
+  },
+};
+
+// Everyone takes part by default; the difficulty director decides how many
+// of them are in the store at once
+export const DEFAULT_THIEVES: ThiefArchetype[] = [
+  THIEF_ARCHETYPES.snatcher,
+  THIEF_ARCHETYPES.hoarder,
+  THIEF_ARCHETYPES.dasher,
+  THIEF_ARCHETYPES.sneak,
+];
+
+// Parse a comma separated list of archetype keys, e.g. "snatcher,dasher".
+// Unknown names, including ones every object has like "toString", are
+// skipped; returns null if nothing usable is left.
+export function parseThiefRoster(
+  value: string | null
+): ThiefArchetype[] | null {
+  if (!value) return null;
+
+  const roster = value
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => Object.keys(THIEF_ARCHETYPES).includes(key))
+    .map((key) => THIEF_ARCHETYPES[key]);
+  return roster.length > 0 ? roster : null;
+}
@@ -0,0 +1,20 @@
+// Dropping and throwing held items. A throw is charged up while the throw
+// key is held and flies in a simple ballistic arc, bouncing off shelves.
+// Distances are in units, speeds in units per second.
+
+export const THROW_CONSTANTS = {
+  dropDistance: 0.4, // How far in front of the player a dropped item lands
+  chargeTime: 1, // Seconds of holding for a full-power throw
+  minSpeed: 2,
+  maxSpeed: 7,
+  launchAngle: (35 * Math.PI) / 180, // Above the horizontal
+  launchHeight: 0.8, // Roughly shoulder height
+  gravity: 9.8,
+  bounce: 0.5, // Fraction of speed kept after hitting a shelf or wall
+  itemRadius: 0.1, // For bouncing off shelves
+  shelfHeight: 1.2, // Anything higher sails over the shelves
+  hitRadius: 0.4, // How close to a thief counts as a hit
+  hitHeight: 1.4, // Anything higher flies over their heads
+  stunTime: 2.5, // Seconds a thief stands dazed after a hit
+  maxFlightTime: 3, // Lands wherever it is after this long
+};
@@ -0,0 +1,173 @@
+import { DIFFICULTY_CURVES } from "./difficulty";
+import { PRODUCT_CATEGORIES } from "./items";
+import { DEFAULT_LAYOUT } from "./layout";
+import {
+  SimulationState,
+  createInitialState,
+  startNewRun,
+} from "./simulation";
+import { THIEF_ARCHETYPES } from "./thieves";
+import {
+  TUTORIAL_STEPS,
+  TutorialProgress,
+  advanceTutorial,
+  createTutorialState,
+  getTargetShelfIds,
+  getTutorialStep,
+  releaseThieves,
+  startTutorial,
+} from "./tutorial";
+
+// The player moved to a spot, as if they'd walked there
+function playerAt(
+  state: SimulationState,
+  x: number,
+  z: number
+): SimulationState {
+  const [player] = state.players;
+  return {
+    ...state,
+    players: [{ ...player, position: [x, player.position[1], z] }],
+  };
+}
+
+function holdingFirstItem(state: SimulationState): SimulationState {
+  return {
+    ...state,
+    players: [{ ...state.players[0], heldItemId: state.items[0].id }],
+  };
+}
+
+// Progress at the given lesson
+function atStep(id: string, state: SimulationState): TutorialProgress {
+  return {
+    step: TUTORIAL_STEPS.findIndex((step) => step.id === id),
+    origin: state.players[0].position,
+    run: state,
+  };
+}
+
+describe("createTutorialState", () => {
+  it("keeps customers and the thief away", () => {
+    const state = createTutorialState(1);
+    expect(state.thieves).toHaveLength(1);
+    expect(state.thieves[0].waitTimer).toBeGreaterThan(
+      state.shiftRules.duration / 2
+    );
+    expect(state.customerTimer).toBeGreaterThan(state.shiftRules.duration / 2);
+  });
+});
+
+describe("advanceTutorial", () => {
+  const state = createTutorialState(1);
+
+  it("moves on once the player has walked far enough", () => {
+    const progress = startTutorial(state, state);
+    const [x, , z] = state.players[0].position;
+
+    expect(advanceTutorial(progress, playerAt(state, x + 1, z), null)).toBe(
+      progress
+    );
+    const moved = playerAt(state, x + 2, z);
+    expect(advanceTutorial(progress, moved, null)).toEqual({
+      step: 1,
+      origin: moved.players[0].position,
+      run: state,
+    });
+  });
+
+  it("counts an item already in hand as picked up", () => {
+    const progress = atStep("pickUp", state);
+    expect(advanceTutorial(progress, state, null)).toBe(progress);
+    expect(
+      getTutorialStep(advanceTutorial(progress, holdingFirstItem(state), null))
+        .id
+    ).toBe("shelve");
+  });
+
+  it("waits for the item to be shelved and the thief to be caught", () => {
+    const [item] = state.items;
+    const [shelf] = state.layout.shelves;
+
+    const shelving = atStep("shelve", state);
+    expect(
+      advanceTutorial(shelving, state, { type: "itemPickedUp", item })
+    ).toBe(shelving);
+    expect(
+      getTutorialStep(
+        advanceTutorial(shelving, state, {
+          type: "itemShelved",
+          item,
+          shelf,
+          points: 10,
+        })
+      ).id
+    ).toBe("catch");
+
+    const catching = atStep("catch", state);
+    expect(
+      getTutorialStep(
+        advanceTutorial(catching, state, {
+          type: "thiefCaught",
+          thiefId: 0,
+          recoveredItems: [],
+        })
+      ).id
+    ).toBe("done");
+  });
+
+  it("stays on the last lesson", () => {
+    const done = atStep("done", state);
+    expect(advanceTutorial(done, state, null)).toBe(done);
+  });
+});
+
+describe("getTargetShelfIds", () => {
+  it("highlights the shelves the carried item goes on while shelving", () => {
+    const state = holdingFirstItem(createTutorialState(1));
+    const kinds = PRODUCT_CATEGORIES[state.items[0].type.category].shelves;
+    const ids = getTargetShelfIds(atStep("shelve", state), state);
+
+    expect(ids.length).toBeGreaterThan(0);
+    for (const id of ids) {
+      const shelf = state.layout.shelves.find((other) => other.id === id);
+      expect(kinds).toContain(shelf?.kind);
+    }
+    expect(getTargetShelfIds(atStep("catch", state), state)).toEqual([]);
+  });
+});
+
+describe("releaseThieves", () => {
+  it("lets the waiting thief in a few seconds from now", () => {
+    const state = createTutorialState(1);
+    const [thief] = releaseThieves(state).thieves;
+    expect(thief.waitTimer).toBeLessThan(10);
+    expect(state.thieves[0].waitTimer).toBeGreaterThan(10);
+  });
+});
+
+describe("leaving the tutorial", () => {
+  it("goes back to the game it was started from for the next new game", () => {
+    const run = createInitialState(
+      1,
+      DEFAULT_LAYOUT,
+      [THIEF_ARCHETYPES.snatcher, THIEF_ARCHETYPES.dasher],
+      DIFFICULTY_CURVES.standard
+    );
+    const tutorial = createTutorialState(2);
+    const [x, , z] = tutorial.players[0].position;
+    const progress = advanceTutorial(
+      startTutorial(tutorial, run),
+      playerAt(tutorial, x + 2, z),
+      null
+    );
+
+    const next = startNewRun(progress.run, 3);
+    expect(next.thieves.map((thief) => thief.archetype)).toEqual([
+      THIEF_ARCHETYPES.snatcher,
+      THIEF_ARCHETYPES.dasher,
+    ]);
+    expect(next.difficulty).toBe(DIFFICULTY_CURVES.standard);
+    expect(next.seed).toBe(3);
+  });
+});
@@ -0,0 +1,202 @@
+import { DIFFICULTY_CURVES } from "./difficulty";
+import { InputAction, InputBindings, formatKey } from "./input";
+import { PRODUCT_CATEGORIES } from "./items";
+import { DEFAULT_LAYOUT } from "./layout";
+import {
+  SimulationEvent,
+  SimulationState,
+  createInitialState,
+  getHeldItem,
+} from "./simulation";
+import { Vec3 } from "./store";
+import { THIEF_ARCHETYPES } from "./thieves";
+
+// The tutorial: the default store with nobody else in it, and a list of
+// lessons the player works through one at a time. Each lesson waits for the
+// player to do what it asks. Customers stay away throughout and the thief
+// only comes in for the lesson on catching it.
+
+export type TutorialStepId = "move" | "pickUp" | "shelve" | "catch" | "done";
+
+export interface TutorialStep {
+  id: TutorialStepId;
+  title: string;
+  // What to do, naming the player's own keys
+  prompt: (bindings: InputBindings, state: SimulationState) => string;
+}
+
+// Where the player is in the tutorial
+export interface TutorialProgress {
+  step: number; // Index into TUTORIAL_STEPS
+  origin: Vec3; // Where the player stood when the step began
+  run: SimulationState; // The game it was started from, to go back to after
+}
+
+// Seconds that stand in for "never" in the tutorial's state: the shift's
+// length, customers' arrival and the thief's wait before its lesson
+const NEVER = 1e6;
+
+// Seconds the thief waits outside once its lesson begins
+const THIEF_ENTRY_DELAY = 3;
+
+// How far the player has to walk to pass the first lesson
+const MOVE_DISTANCE = 2;
+
+// Slow and bold, so it's easy to catch in the act
+const TUTORIAL_THIEF = THIEF_ARCHETYPES.hoarder;
+
+// The first key bound to an action, for the prompts
+function keyFor(bindings: InputBindings, action: InputAction): string {
+  const [key] = bindings.keys[action];
+  return key === undefined ? "its button" : formatKey(key);
+}
+
+const MOVE_ACTIONS: InputAction[] = [
+  "moveUp",
+  "moveLeft",
+  "moveDown",
+  "moveRight",
+];
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: "move",
+    title: "Getting around",
+    prompt: (bindings) =>
+      `Walk around the store with ` +
+      `${MOVE_ACTIONS.map((action) => keyFor(bindings, action)).join(" ")} ` +
+      `or the left stick. Hold ${keyFor(bindings, "sprint")} to sprint.`,
+  },
+  {
+    id: "pickUp",
+    title: "Picking things up",
+    prompt: (bindings) =>
+      `Items left lying around float off the floor. Walk up to one until it ` +
+      `glows white and press ${keyFor(bindings, "interact")} to pick it up.`,
+  },
+  {
+    id: "shelve",
+    title: "Restocking",
+    prompt: (bindings, state) => {
+      const carried = getHeldItem(state, state.players[0]);
+      const where = carried
+        ? `${carried.type.name} goes ${
+            PRODUCT_CATEGORIES[carried.type.category].where
+          }`
+        : "Every product has its own kind of shelf";
+      return (
+        `${where}, highlighted in yellow. Walk up to it and press ` +
+        `${keyFor(bindings, "interact")} to put the item away.`
+      );
+    },
+  },
+  {
+    id: "catch",
+    title: "Stopping a thief",
+    prompt: (bindings) =>
+      `A thief is on the way in, and looks like any shopper until it takes ` +
+      `something. Once it has, run into it to make it drop the loot, or ` +
+      `press ${keyFor(bindings, "catch")} next to it.`,
+  },
+  {
+    id: "done",
+    title: "That's the job",
+    prompt: () =>
+      "Keep the shelves stocked and the thieves out of the door, and the " +
+      "shift is yours. Customers will queue at the till too; scan their " +
+      "shopping to get them on their way.",
+  },
+];
+
+export function createTutorialState(seed: number): SimulationState {
+  const state = createInitialState(
+    seed,
+    DEFAULT_LAYOUT,
+    [TUTORIAL_THIEF],
+    DIFFICULTY_CURVES.relaxed
+  );
+  return {
+    ...state,
+    shiftRules: { duration: NEVER, restockQuota: NEVER, stolenLimit: NEVER },
+    customerTimer: NEVER,
+    thieves: state.thieves.map((thief) => ({ ...thief, waitTimer: NEVER })),
+  };
+}
+
+export function startTutorial(
+  state: SimulationState,
+  run: SimulationState
+): TutorialProgress {
+  return { step: 0, origin: state.players[0].position, run };
+}
+
+export function getTutorialStep(progress: TutorialProgress): TutorialStep {
+  return TUTORIAL_STEPS[progress.step];
+}
+
+// Shelves the carried item belongs on, for the yellow highlight
+export function getTargetShelfIds(
+  progress: TutorialProgress,
+  state: SimulationState
+): string[] {
+  const carried = getHeldItem(state, state.players[0]);
+  if (getTutorialStep(progress).id !== "shelve" || !carried) return [];
+  const kinds = PRODUCT_CATEGORIES[carried.type.category].shelves;
+  return state.layout.shelves
+    .filter((shelf) => kinds.includes(shelf.kind))
+    .map((shelf) => shelf.id);
+}
+
+function isStepDone(
+  progress: TutorialProgress,
+  state: SimulationState,
+  event: SimulationEvent | null
+): boolean {
+  switch (getTutorialStep(progress).id) {
+    case "move": {
+      const [x, , z] = state.players[0].position;
+      const [ox, , oz] = progress.origin;
+      return Math.hypot(x - ox, z - oz) >= MOVE_DISTANCE;
+    }
+    case "pickUp":
+      // Already holding one counts, picked up before the lesson asked
+      return (
+        event?.type === "itemPickedUp" ||
+        getHeldItem(state, state.players[0]) !== null
+      );
+    case "shelve":
+      return event?.type === "itemShelved";
+    case "catch":
+      return event?.type === "thiefCaught";
+    case "done":
+      return false;
+  }
+}
+
+// Move on once the current step is done, checked against each event as it
+// happens and against the state after every frame (with no event). Returns
+// the same progress when nothing changed.
+export function advanceTutorial(
+  progress: TutorialProgress,
+  state: SimulationState,
+  event: SimulationEvent | null
+): TutorialProgress {
+  if (!isStepDone(progress, state, event)) return progress;
+  return {
+    ...progress,
+    step: progress.step + 1,
+    origin: state.players[0].position,
+  };
+}
+
+// Let the thief in, a few seconds from now, once its lesson begins
+export function releaseThieves(state: SimulationState): SimulationState {
+  return {
+    ...state,
+    thieves: state.thieves.map((thief) =>
+      thief.mode === "waiting"
+        ? { ...thief, waitTimer: Math.min(thief.waitTimer, THIEF_ENTRY_DELAY) }
+        : thief
+    ),
+  };
+}
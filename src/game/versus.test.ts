@@ -0,0 +1,243 @@
+import { EncodedInputs, encodeInputs } from "./replay";
+import {
+  NO_INPUTS,
+  SimulationInputs,
+  SimulationState,
+  createInitialState,
+} from "./simulation";
+import {
+  AgentSample,
+  InputQueue,
+  MAX_MESSAGE_TICKS,
+  MAX_QUEUED_TICKS,
+  VERSUS_PROTOCOL_VERSION,
+  VERSUS_THIEF_ID,
+  getJoinRejection,
+  interpolateSamples,
+  parseClientMessage,
+  predictState,
+  queueInputs,
+  takeInputs,
+} from "./versus";
+
+const INTERACT = 1; // The interact button's bit in EncodedInputs
+const RIGHT: EncodedInputs = encodeInputs({ ...NO_INPUTS, move: [1, 0] });
+
+function inputsMessage(seq: number, ticks: unknown[]): string {
+  return JSON.stringify({ type: "inputs", seq, ticks });
+}
+
+function emptyQueue(): InputQueue {
+  return { queue: [], ack: -1, last: NO_INPUTS };
+}
+
+function sample(tick: number, x: number, rotation = 0): AgentSample {
+  return { tick, position: [x, 0, 0], rotation, moving: true };
+}
+
+// The remote thief inside the store, stood where the player starts
+function withThiefInStore(state: SimulationState): SimulationState {
+  return {
+    ...state,
+    thieves: state.thieves.map((thief) =>
+      thief.id === VERSUS_THIEF_ID
+        ? { ...thief, mode: "searching", position: state.players[0].position }
+        : thief
+    ),
+  };
+}
+
+describe("parseClientMessage", () => {
+  it("accepts joins for either role", () => {
+    const join = { type: "join", version: 1, role: "thief" };
+    expect(parseClientMessage(JSON.stringify(join))).toEqual(join);
+  });
+
+  it("turns away anything malformed", () => {
+    const bad = [
+      "not json",
+      "null",
+      "[]",
+      JSON.stringify({ type: "cheat" }),
+      JSON.stringify({ type: "join", version: 1, role: "manager" }),
+      JSON.stringify({ type: "join", version: "1", role: "thief" }),
+      JSON.stringify({ type: "shift", action: "win" }),
+      inputsMessage(0.5, [[0, 0, 0]]),
+      inputsMessage(0, [[0, 0]]),
+      inputsMessage(0, [[0, 0, "1"]]),
+      inputsMessage(0, "[[0, 0, 0]]" as unknown as unknown[]),
+    ];
+    for (const text of bad) {
+      expect(parseClientMessage(text)).toBeNull();
+    }
+  });
+
+  it("turns away non-finite numbers", () => {
+    // JSON has no Infinity or NaN, but numbers too big for a double parse
+    // as Infinity
+    expect(
+      parseClientMessage('{"type":"inputs","seq":0,"ticks":[[1e999,0,0]]}')
+    ).toBeNull();
+    expect(
+      parseClientMessage('{"type":"inputs","seq":0,"ticks":[[0,0,-1e999]]}')
+    ).toBeNull();
+  });
+
+  it("turns away oversized batches of ticks", () => {
+    const ticks = (count: number) =>
+      Array.from({ length: count }, (): EncodedInputs => [0, 0, 0]);
+    expect(
+      parseClientMessage(inputsMessage(0, ticks(MAX_MESSAGE_TICKS)))
+    ).not.toBeNull();
+    expect(
+      parseClientMessage(inputsMessage(0, ticks(MAX_MESSAGE_TICKS + 1)))
+    ).toBeNull();
+  });
+
+  it("clamps inputs to what a controller could send", () => {
+    expect(parseClientMessage(inputsMessage(4, [[30, 40, 0xffff]]))).toEqual({
+      type: "inputs",
+      seq: 4,
+      ticks: [[0.6, 0.8, 0b111111]],
+    });
+  });
+});
+
+describe("getJoinRejection", () => {
+  it("lets a player in as a free role of the same protocol version", () => {
+    expect(getJoinRejection(VERSUS_PROTOCOL_VERSION, "thief", [])).toBeNull();
+    expect(
+      getJoinRejection(VERSUS_PROTOCOL_VERSION, "thief", ["employee"])
+    ).toBeNull();
+  });
+
+  it("turns away other protocol versions and roles already taken", () => {
+    expect(
+      getJoinRejection(VERSUS_PROTOCOL_VERSION + 1, "thief", [])
+    ).toContain(`version ${VERSUS_PROTOCOL_VERSION}`);
+    expect(
+      getJoinRejection(VERSUS_PROTOCOL_VERSION, "employee", ["employee"])
+    ).toContain("already playing the employee");
+  });
+});
+
+describe("server input queue", () => {
+  it("uses queued ticks in order and skips resent ones", () => {
+    const client = emptyQueue();
+    queueInputs(client, 0, [RIGHT, [0, 0, INTERACT]]);
+    queueInputs(client, 1, [[0, 0, INTERACT], [0, 1, 0]]);
+    expect(client.queue.map(({ seq }) => seq)).toEqual([0, 1, 2]);
+
+    expect(takeInputs(client).move).toEqual([1, 0]);
+    expect(takeInputs(client).interact).toBe(true);
+    expect(client.ack).toBe(1);
+
+    // Already used
+    queueInputs(client, 0, [RIGHT, RIGHT]);
+    expect(client.queue.map(({ seq }) => seq)).toEqual([2]);
+  });
+
+  it("keeps walking but doesn't press again when the queue runs dry", () => {
+    const client = emptyQueue();
+    queueInputs(client, 0, [[1, 0, INTERACT]]);
+    expect(takeInputs(client)).toMatchObject({ move: [1, 0], interact: true });
+
+    const held = takeInputs(client);
+    expect(held).toMatchObject({ move: [1, 0], interact: false });
+    expect(client.ack).toBe(0);
+  });
+
+  it("carries button presses over when it drops queued ticks", () => {
+    const client = emptyQueue();
+    const ticks: EncodedInputs[] = Array.from(
+      { length: MAX_QUEUED_TICKS + 3 },
+      () => [0, 0, 0]
+    );
+    ticks[1] = [0, 0, INTERACT];
+    queueInputs(client, 0, ticks);
+
+    const inputs: SimulationInputs = takeInputs(client);
+    // The oldest three went, their presses going with the first tick kept
+    expect(client.ack).toBe(3);
+    expect(inputs.interact).toBe(true);
+    expect(client.queue).toHaveLength(MAX_QUEUED_TICKS - 1);
+    expect(takeInputs(client).interact).toBe(false);
+  });
+});
+
+describe("interpolateSamples", () => {
+  it("slides between the samples around the tick", () => {
+    const result = interpolateSamples([sample(0, 0), sample(10, 1)], 5);
+    expect(result?.tick).toBe(5);
+    expect(result?.position[0]).toBeCloseTo(0.5);
+  });
+
+  it("turns the short way round", () => {
+    const result = interpolateSamples(
+      [sample(0, 0, Math.PI - 0.1), sample(10, 0, -Math.PI + 0.1)],
+      5
+    );
+    expect(Math.abs(result?.rotation ?? 0)).toBeCloseTo(Math.PI);
+  });
+
+  it("uses the nearest sample outside their range", () => {
+    const samples = [sample(10, 0), sample(20, 1)];
+    expect(interpolateSamples(samples, 5)).toBe(samples[0]);
+    expect(interpolateSamples(samples, 25)).toBe(samples[1]);
+    expect(interpolateSamples([], 5)).toBeNull();
+  });
+
+  it("jumps instead of sliding across a teleport", () => {
+    const samples = [sample(0, 0), sample(10, 5)];
+    expect(interpolateSamples(samples, 5)).toBe(samples[1]);
+  });
+});
+
+describe("predictState", () => {
+  const snapshot = withThiefInStore(createInitialState(1));
+  const pending = [0, 1, 2].map((seq) => ({ seq, inputs: RIGHT }));
+
+  it("plays the employee's inputs on top, with the thief stood still", () => {
+    const predicted = predictState(
+      snapshot,
+      pending,
+      "employee",
+      VERSUS_THIEF_ID,
+      true
+    );
+    expect(predicted.players[0].position[0]).toBeGreaterThan(
+      snapshot.players[0].position[0]
+    );
+    expect(predicted.thieves[VERSUS_THIEF_ID].position).toEqual(
+      snapshot.thieves[VERSUS_THIEF_ID].position
+    );
+    expect(predicted.events).toEqual([]);
+  });
+
+  it("plays the thief's inputs on top, with the employee stood still", () => {
+    const predicted = predictState(
+      snapshot,
+      pending,
+      "thief",
+      VERSUS_THIEF_ID,
+      true
+    );
+    expect(predicted.thieves[VERSUS_THIEF_ID].position[0]).toBeGreaterThan(
+      snapshot.thieves[VERSUS_THIEF_ID].position[0]
+    );
+    expect(predicted.players[0].position).toEqual(
+      snapshot.players[0].position
+    );
+  });
+
+  it("is the snapshot itself with nothing pending", () => {
+    const predicted = predictState(
+      snapshot,
+      [],
+      "employee",
+      VERSUS_THIEF_ID,
+      true
+    );
+    expect(predicted.players).toBe(snapshot.players);
+  });
+});
@@ -0,0 +1,337 @@
+import { DifficultyCurve } from "./difficulty";
+import { StoreLayout } from "./layout";
+import { EncodedInputs, clampInputs, decodeInputs } from "./replay";
+import {
+  NO_INPUTS,
+  PlayerState,
+  SimulationEvent,
+  SimulationInputs,
+  SimulationState,
+  TICK,
+  ThiefState,
+  step,
+  withoutPresses,
+} from "./simulation";
+import { Vec3 } from "./store";
+
+// Online versus: one player is the employee, the other steers a thief, and
+// a small Node server (server/index.ts) owns the game. Clients send their
+// inputs for every tick; the server steps the simulation and streams
+// snapshots back, so only it decides what gets stolen and who gets caught.
+// Each client predicts its own character by replaying its unacknowledged
+// inputs on top of the latest snapshot, and draws the other player's
+// character a little in the past, interpolated between snapshots.
+
+export const VERSUS_PROTOCOL_VERSION = 1;
+
+export const DEFAULT_VERSUS_PORT = 8787;
+
+// Server ticks between snapshots
+export const SNAPSHOT_TICKS = 3;
+
+// How far behind the latest snapshot the remote character is drawn, so
+// there's usually a newer snapshot to interpolate towards
+export const INTERPOLATION_TICKS = 2 * SNAPSHOT_TICKS;
+
+// Further than this between two snapshots and the remote character jumps
+// instead of sliding, e.g. when a thief is sent back outside
+const TELEPORT_DISTANCE = 2;
+
+// Most ticks of inputs in one message. A client sends a frame's worth at a
+// time, so anything near this is a client trying to swamp the server.
+export const MAX_MESSAGE_TICKS = 30;
+
+// Most ticks of inputs the server keeps waiting. A client whose clock runs
+// fast gets its oldest ticks merged instead of falling further and further
+// behind.
+export const MAX_QUEUED_TICKS = 10;
+
+// The thief a remote player steers. The others stay bots, and so does this
+// one whenever nobody is steering it.
+export const VERSUS_THIEF_ID = 0;
+
+export type VersusRole = "employee" | "thief";
+
+export const VERSUS_ROLES: VersusRole[] = ["employee", "thief"];
+
+// The state without what stays the same for the whole game, which is sent
+// once when joining
+export type SnapshotState = Omit<
+  SimulationState,
+  "layout" | "difficulty" | "events"
+>;
+
+export type ClientMessage =
+  | { type: "join"; version: number; role: VersusRole }
+  | { type: "inputs"; seq: number; ticks: EncodedInputs[] } // seq numbers the first tick
+  | { type: "shift"; action: "retry" | "next" }; // From the employee once the shift is over
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      role: VersusRole;
+      thiefId: number;
+      layout: StoreLayout;
+      difficulty: DifficultyCurve;
+    }
+  | {
+      type: "snapshot";
+      tick: number;
+      ack: number; // Last input seq the server has used, -1 before any
+      opponent: boolean; // Whether the other role is connected
+      state: SnapshotState;
+      events: SimulationEvent[]; // Everything since the last snapshot
+    }
+  | { type: "rejected"; reason: string };
+
+// Inputs the client has sent but the server hasn't used yet
+export interface PendingInputs {
+  seq: number;
+  inputs: EncodedInputs;
+}
+
+// A client's inputs on the server, waiting for the ticks they're used in
+export interface InputQueue {
+  queue: PendingInputs[];
+  ack: number; // Seq of the last inputs used, -1 before any
+  last: SimulationInputs; // Held again when the queue runs dry
+}
+
+// Where the remote character was at a server tick
+export interface AgentSample {
+  tick: number;
+  position: Vec3;
+  rotation: number;
+  moving: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEncodedInputs(value: unknown): value is EncodedInputs {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((part) => typeof part === "number" && Number.isFinite(part))
+  );
+}
+
+export function toSnapshotState(state: SimulationState): SnapshotState {
+  const { layout, difficulty, events, ...snapshot } = state;
+  return snapshot;
+}
+
+export function fromSnapshotState(
+  snapshot: SnapshotState,
+  layout: StoreLayout,
+  difficulty: DifficultyCurve
+): SimulationState {
+  return { ...snapshot, layout, difficulty, events: [] };
+}
+
+// What a client sends isn't trusted: anything malformed or oversized comes
+// back as null, and inputs are clamped to what a real controller can do
+export function parseClientMessage(text: string): ClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return null;
+  }
+  if (!isRecord(data)) return null;
+
+  switch (data.type) {
+    case "join":
+      return typeof data.version === "number" &&
+        VERSUS_ROLES.includes(data.role as VersusRole)
+        ? { type: "join", version: data.version, role: data.role as VersusRole }
+        : null;
+    case "inputs":
+      return Number.isInteger(data.seq) &&
+        Array.isArray(data.ticks) &&
+        data.ticks.length <= MAX_MESSAGE_TICKS &&
+        data.ticks.every(isEncodedInputs)
+        ? {
+            type: "inputs",
+            seq: data.seq as number,
+            ticks: data.ticks.map(clampInputs),
+          }
+        : null;
+    case "shift":
+      return data.action === "retry" || data.action === "next"
+        ? { type: "shift", action: data.action }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Why the server turns a player away, or null to let them join
+export function getJoinRejection(
+  version: number,
+  role: VersusRole,
+  taken: VersusRole[]
+): string | null {
+  if (version !== VERSUS_PROTOCOL_VERSION) {
+    return `The server speaks version ${VERSUS_PROTOCOL_VERSION}`;
+  }
+  if (taken.includes(role)) {
+    return `Someone is already playing the ${role}`;
+  }
+  return null;
+}
+
+// Queue a message's ticks of inputs on the server. Ticks already queued or
+// used are resent ones and get skipped. The parser turns away batches over
+// MAX_MESSAGE_TICKS, so one message can't queue more than that.
+export function queueInputs(
+  client: InputQueue,
+  seq: number, // Of the first tick
+  ticks: EncodedInputs[]
+) {
+  const { queue } = client;
+  const expected =
+    queue.length > 0 ? queue[queue.length - 1].seq + 1 : client.ack + 1;
+  ticks.forEach((inputs, i) => {
+    if (seq + i >= expected) queue.push({ seq: seq + i, inputs });
+  });
+}
+
+// The client's inputs for the next tick. Presses are only used once, so a
+// client that falls behind keeps walking but doesn't keep grabbing.
+export function takeInputs(client: InputQueue): SimulationInputs {
+  const excess = client.queue.length - MAX_QUEUED_TICKS;
+  if (excess > 0) {
+    // The buttons of the dropped ticks carry over into the first one kept
+    const dropped = client.queue.splice(0, excess);
+    const [kept] = client.queue;
+    const buttons = dropped.reduce((bits, { inputs }) => bits | inputs[2], 0);
+    kept.inputs = [kept.inputs[0], kept.inputs[1], kept.inputs[2] | buttons];
+  }
+
+  const queued = client.queue.shift();
+  if (!queued) return withoutPresses(client.last);
+
+  client.ack = queued.seq;
+  client.last = decodeInputs(queued.inputs);
+  return client.last;
+}
+
+// The server is trusted to send well-formed messages; only the type is
+// checked
+export function parseServerMessage(text: string): ServerMessage | null {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isRecord(data) && typeof data.type === "string"
+      ? (data as ServerMessage)
+      : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// The character the other player controls
+function getRemoteAgent(
+  state: SnapshotState,
+  role: VersusRole,
+  thiefId: number
+): PlayerState | ThiefState | undefined {
+  return role === "employee"
+    ? state.thieves.find((thief) => thief.id === thiefId)
+    : state.players[0];
+}
+
+// The local player's view of the game: the latest snapshot with their own
+// inputs since then played on top. The other player's character stands
+// still meanwhile, and gets placed by placeRemote(). Events are the
+// server's business, so predicted ones are dropped.
+export function predictState(
+  snapshot: SimulationState,
+  pending: PendingInputs[],
+  role: VersusRole,
+  thiefId: number,
+  opponent: boolean
+): SimulationState {
+  let state = snapshot;
+  for (const { inputs } of pending) {
+    const local = decodeInputs(inputs);
+    state =
+      role === "employee"
+        ? step(state, [local], TICK, opponent ? { [thiefId]: NO_INPUTS } : {})
+        : step(state, [], TICK, { [thiefId]: local });
+  }
+  return { ...state, events: [] };
+}
+
+export function sampleRemote(
+  state: SnapshotState,
+  tick: number,
+  role: VersusRole,
+  thiefId: number
+): AgentSample | null {
+  const agent = getRemoteAgent(state, role, thiefId);
+  if (!agent) return null;
+  const { position, rotation, moving } = agent;
+  return { tick, position, rotation, moving };
+}
+
+// Where the remote character was at `tick`, between the two samples around
+// it. Samples must be in tick order; outside their range the nearest one is
+// used.
+export function interpolateSamples(
+  samples: AgentSample[],
+  tick: number
+): AgentSample | null {
+  if (samples.length === 0) return null;
+
+  const after = samples.findIndex((sample) => sample.tick >= tick);
+  if (after === -1) return samples[samples.length - 1];
+  if (after === 0) return samples[0];
+
+  const a = samples[after - 1];
+  const b = samples[after];
+  const dx = b.position[0] - a.position[0];
+  const dz = b.position[2] - a.position[2];
+  if (Math.sqrt(dx * dx + dz * dz) > TELEPORT_DISTANCE) return b;
+
+  const t = (tick - a.tick) / (b.tick - a.tick);
+  let turn = b.rotation - a.rotation;
+  while (turn > Math.PI) turn -= Math.PI * 2;
+  while (turn < -Math.PI) turn += Math.PI * 2;
+  return {
+    tick,
+    position: [
+      a.position[0] + dx * t,
+      a.position[1] + (b.position[1] - a.position[1]) * t,
+      a.position[2] + dz * t,
+    ],
+    rotation: a.rotation + turn * t,
+    moving: t < 0.5 ? a.moving : b.moving,
+  };
+}
+
+// Put the remote character where the interpolation says it is
+export function placeRemote(
+  state: SimulationState,
+  sample: AgentSample,
+  role: VersusRole,
+  thiefId: number
+): SimulationState {
+  const { position, rotation, moving } = sample;
+  return role === "employee"
+    ? {
+        ...state,
+        thieves: state.thieves.map((thief) =>
+          thief.id === thiefId
+            ? { ...thief, position, rotation, moving }
+            : thief
+        ),
+      }
+    : {
+        ...state,
+        players: state.players.map((player, index) =>
+          index === 0 ? { ...player, position, rotation, moving } : player
+        ),
+      };
+}
@@ -0,0 +1,80 @@
+import { ShelfDefinition, StoreLayout } from "./layout";
+import { buildNavGrid, isWalkable } from "./navigation";
+import { Vec3 } from "./store";
+import { VISION, Viewer, canSee, findHidingSpot } from "./vision";
+
+// A row of shelves across the middle of a 10x10 store, at the given x
+// positions
+function layoutWithRow(xs: number[]): StoreLayout {
+  return {
+    version: 1,
+    name: "Test shop",
+    floor: { width: 10, depth: 10 },
+    walls: [{ side: "front", from: 0, to: 10 }],
+    doors: [{ side: "front", index: 5 }],
+    windows: [],
+    shelves: xs.map(
+      (x): ShelfDefinition => ({
+        id: `shelf-${x}`,
+        kind: "shelf-boxes",
+        x,
+        z: 0,
+        rotation: 0,
+      })
+    ),
+    fixtures: [],
+    spawnZones: [{ x: -3, z: -3, width: 2, depth: 2 }],
+  };
+}
+
+const ROW = layoutWithRow([-1.4, -0.7, 0, 0.7, 1.4]);
+const OPEN = layoutWithRow([]);
+
+// Stood behind the row, looking across it
+const WATCHER: Viewer = { position: [0, 0.15, -3], rotation: 0 };
+
+describe("canSee", () => {
+  it("sees across open floor in front", () => {
+    expect(canSee(OPEN, WATCHER, [0, 0.15, 2])).toBe(true);
+    expect(canSee(OPEN, WATCHER, [2.5, 0.15, -0.5])).toBe(true);
+  });
+
+  it("can't see through shelves", () => {
+    expect(canSee(ROW, WATCHER, [0, 0.15, 2])).toBe(false);
+    expect(canSee(ROW, WATCHER, [2.5, 0.15, -0.5])).toBe(true);
+  });
+
+  it("can't see past its view distance or behind itself", () => {
+    expect(
+      canSee(OPEN, WATCHER, [0, 0.15, -3 + VISION.viewDistance + 0.5])
+    ).toBe(false);
+    expect(canSee(OPEN, WATCHER, [0, 0.15, -4])).toBe(false);
+    const turned = { ...WATCHER, rotation: Math.PI };
+    expect(canSee(OPEN, turned, [0, 0.15, -4])).toBe(true);
+  });
+});
+
+describe("findHidingSpot", () => {
+  it("finds somewhere walkable nearby that the viewers can't see", () => {
+    const grid = buildNavGrid(ROW);
+    const from: Vec3 = [2.5, 0.15, -0.5];
+    const spot = findHidingSpot(ROW, grid, [WATCHER], from);
+    if (!spot) throw new Error("Nowhere to hide behind the shelves");
+
+    expect(isWalkable(grid, spot[0], spot[2])).toBe(true);
+    expect(canSee(ROW, WATCHER, spot)).toBe(false);
+    expect(spot[1]).toBe(from[1]);
+    expect(Math.hypot(spot[0] - from[0], spot[2] - from[2])).toBeLessThan(3.1);
+  });
+
+  it("gives up with nowhere out of sight", () => {
+    // Back to back in the middle of an empty store, seeing all round
+    const viewers: Viewer[] = [
+      { position: [0, 0.15, 0], rotation: 0 },
+      { position: [0, 0.15, 0], rotation: Math.PI },
+    ];
+    expect(
+      findHidingSpot(OPEN, buildNavGrid(OPEN), viewers, [1, 0.15, 1])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { StoreLayout } from "./layout";
+import { NavGrid, isWalkable } from "./navigation";
+import { Rect, Vec3, getFootprintRect } from "./store";
+
+// Line of sight on the store floor. Shelves and fixtures are taller than
+// everyone, so a sight line is a 2D ray tested against their footprints.
+
+export interface Viewer {
+  position: Vec3;
+  rotation: number; // Facing angle, same convention as atan2(dx, dz)
+}
+
+export const VISION = {
+  viewDistance: 6,
+  halfFieldOfView: (100 * Math.PI) / 180, // Nobody has eyes in the back of their head
+};
+
+// Slab test of the segment a-b against an axis-aligned rectangle
+function segmentHitsRect(a: Vec3, b: Vec3, rect: Rect): boolean {
+  const dx = b[0] - a[0];
+  const dz = b[2] - a[2];
+  let tMin = 0;
+  let tMax = 1;
+
+  const slabs: [number, number, number, number][] = [
+    [a[0], dx, rect.minX, rect.maxX],
+    [a[2], dz, rect.minZ, rect.maxZ],
+  ];
+  for (const [origin, direction, min, max] of slabs) {
+    if (Math.abs(direction) < 1e-9) {
+      if (origin < min || origin > max) return false;
+      continue;
+    }
+    let t1 = (min - origin) / direction;
+    let t2 = (max - origin) / direction;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return false;
+  }
+
+  return true;
+}
+
+// Cast a ray between two points and report whether any fixture is in the way
+export function isSightBlocked(layout: StoreLayout, a: Vec3, b: Vec3): boolean {
+  return [...layout.shelves, ...layout.fixtures].some((fixture) =>
+    segmentHitsRect(a, b, getFootprintRect(fixture))
+  );
+}
+
+// Whether a point is inside the viewer's range and field of view with
+// nothing blocking the sight line
+export function canSee(layout: StoreLayout, viewer: Viewer, target: Vec3) {
+  const dx = target[0] - viewer.position[0];
+  const dz = target[2] - viewer.position[2];
+  const distance = Math.sqrt(dx * dx + dz * dz);
+  if (distance > VISION.viewDistance) return false;
+
+  if (distance > 0.01) {
+    let angle = Math.atan2(dx, dz) - viewer.rotation;
+    while (angle > Math.PI) angle -= Math.PI * 2;
+    while (angle < -Math.PI) angle += Math.PI * 2;
+    if (Math.abs(angle) > VISION.halfFieldOfView) return false;
+  }
+
+  return !isSightBlocked(layout, viewer.position, target);
+}
+
+// Find the closest walkable spot near `from` that none of the viewers can
+// see, by testing rings of candidate points. Returns null if there's nowhere
+// to hide.
+export function findHidingSpot(
+  layout: StoreLayout,
+  grid: NavGrid,
+  viewers: Viewer[],
+  from: Vec3
+): Vec3 | null {
+  const directions = 16;
+
+  for (const radius of [0.75, 1.5, 2.25, 3]) {
+    for (let i = 0; i < directions; i++) {
+      const angle = (i / directions) * Math.PI * 2;
+      const candidate: Vec3 = [
+        from[0] + Math.sin(angle) * radius,
+        from[1],
+        from[2] + Math.cos(angle) * radius,
+      ];
+      if (
+        isWalkable(grid, candidate[0], candidate[2]) &&
+        !viewers.some((viewer) => canSee(layout, viewer, candidate))
+      ) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}